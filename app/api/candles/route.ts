@@ -0,0 +1,68 @@
+// app/api/candles/route.ts
+// GET /api/candles?symbol=NSE:RELIANCE&resolution=1D&from=<ms>&to=<ms>&limit=500&cursor=<opaque>
+// `resolution` may be any timeframe (incl. 4h); add `base=5m` to build it from a finer series.
+// `adjust=none|splits|total` picks raw or corporate-action adjusted prices (default splits).
+import { NextRequest, NextResponse } from "next/server";
+import { ADJUSTMENT_MODES, isAdjustmentMode } from "@/src/market/adjust";
+import { getCandlePage } from "@/src/market/candles";
+import { canResample } from "@/src/market/resample";
+import { isResolution, isTimeframe, TIMEFRAMES } from "@/src/market/resolution";
+
+function parseTime(value: string | null): number | undefined | null {
+  if (value === null || value === "") return undefined;
+  // accept ms epoch or anything Date can parse (ISO dates)
+  const n = /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+  return Number.isFinite(n) ? n : null;
+}
+
+export async function GET(req: NextRequest) {
+  const { searchParams } = new URL(req.url);
+  const symbol = searchParams.get("symbol");
+  const resolution = searchParams.get("resolution") ?? "1D";
+
+  if (!symbol) return NextResponse.json({ error: "Missing symbol" }, { status: 400 });
+  if (!isTimeframe(resolution)) {
+    return NextResponse.json({ error: `resolution must be one of ${TIMEFRAMES.join(", ")}` }, { status: 400 });
+  }
+
+  const baseParam = searchParams.get("base");
+  const base = baseParam ?? undefined;
+  if (base !== undefined && (!isResolution(base) || !canResample(base, resolution))) {
+    return NextResponse.json({ error: `Cannot build ${resolution} bars from base ${base}` }, { status: 400 });
+  }
+
+  const from = parseTime(searchParams.get("from"));
+  const to = parseTime(searchParams.get("to"));
+  if (from === null || to === null) return NextResponse.json({ error: "Invalid from/to" }, { status: 400 });
+  if (from !== undefined && to !== undefined && from > to) {
+    return NextResponse.json({ error: "from must be before to" }, { status: 400 });
+  }
+
+  const limitParam = searchParams.get("limit");
+  const limit = limitParam ? Number(limitParam) : undefined;
+  if (limit !== undefined && !(Number.isFinite(limit) && limit >= 1)) {
+    return NextResponse.json({ error: "limit must be a number of bars, at least 1" }, { status: 400 });
+  }
+
+  const adjust = searchParams.get("adjust") ?? "splits";
+  if (!isAdjustmentMode(adjust)) {
+    return NextResponse.json({ error: `adjust must be one of ${ADJUSTMENT_MODES.join(", ")}` }, { status: 400 });
+  }
+
+  try {
+    const page = await getCandlePage({
+      symbol,
+      resolution,
+      base,
+      from,
+      to,
+      limit,
+      cursor: searchParams.get("cursor"),
+      adjust,
+    });
+    return NextResponse.json(page);
+  } catch (err) {
+    console.error("Candles API error:", err);
+    return NextResponse.json({ error: "Failed to fetch candles" }, { status: 500 });
+  }
+}
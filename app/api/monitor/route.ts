@@ -0,0 +1,51 @@
+// app/api/monitor/route.ts
+// GET  /api/monitor  -> trade monitor status (trades and symbols watched, last reload)
+// POST /api/monitor  -> reload open trades now, e.g. right after saving one
+//
+// A reload reads every user's trades with the service key, so POST needs either a
+// signed-in user (Authorization: Bearer <supabase access token>) or the admin
+// secret (x-monitor-secret: $TRADE_MONITOR_SECRET), and runs at most once per
+// MIN_REFRESH_MS; calls inside that window get 429 with Retry-After.
+import { NextResponse } from "next/server";
+import { getTradeMonitor } from "@/src/trading/monitor";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const MIN_REFRESH_MS = 5_000;
+let lastRefresh = 0;
+
+async function authorized(req: Request): Promise<boolean> {
+  const secret = process.env.TRADE_MONITOR_SECRET;
+  if (secret && req.headers.get("x-monitor-secret") === secret) return true;
+
+  const token = req.headers.get("authorization")?.match(/^Bearer\s+(.+)$/i)?.[1];
+  if (!token) return false;
+  // the monitor only runs with the service key, so the admin client is there by now
+  const { supabaseAdmin } = await import("@/src/lib/supabaseAdmin");
+  const { data, error } = await supabaseAdmin.auth.getUser(token);
+  return !error && !!data?.user;
+}
+
+export async function GET() {
+  const monitor = await getTradeMonitor();
+  if (!monitor) return NextResponse.json({ running: false, error: "Trade monitor disabled" }, { status: 503 });
+  return NextResponse.json(monitor.status());
+}
+
+export async function POST(req: Request) {
+  const monitor = await getTradeMonitor();
+  if (!monitor) return NextResponse.json({ running: false, error: "Trade monitor disabled" }, { status: 503 });
+  if (!(await authorized(req))) return NextResponse.json({ error: "Sign in to refresh the trade monitor" }, { status: 401 });
+
+  const wait = lastRefresh + MIN_REFRESH_MS - Date.now();
+  if (wait > 0) {
+    return NextResponse.json(
+      { ...monitor.status(), error: "Refreshed moments ago" },
+      { status: 429, headers: { "Retry-After": String(Math.ceil(wait / 1000)) } }
+    );
+  }
+  lastRefresh = Date.now();
+  await monitor.refresh();
+  return NextResponse.json(monitor.status());
+}
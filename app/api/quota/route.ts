@@ -0,0 +1,10 @@
+// app/api/quota/route.ts
+// Remaining provider quota for this server process (per-minute bucket, daily cap, queue depth).
+import { NextResponse } from "next/server";
+import { getRateLimiter } from "@/src/market/rateLimiter";
+
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  return NextResponse.json({ providers: getRateLimiter().stats(), timestamp: Date.now() });
+}
@@ -0,0 +1,19 @@
+// app/api/quotes/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { getMarketData } from "@/src/market";
+
+// POST { symbols: string[] } -> Record<symbol, Quote | null>
+export async function POST(req: NextRequest) {
+  try {
+    const { symbols } = await req.json();
+    if (!symbols || !Array.isArray(symbols)) {
+      return NextResponse.json({ error: "Invalid symbols" }, { status: 400 });
+    }
+
+    const quotes = await getMarketData().getQuotes(symbols.map(String));
+    return NextResponse.json(quotes);
+  } catch (err) {
+    console.error("Quotes API error:", err);
+    return NextResponse.json({ error: "Failed to fetch quotes" }, { status: 500 });
+  }
+}
@@ -0,0 +1,76 @@
+// app/api/replay/route.ts
+// GET /api/replay?symbol=NSE:RELIANCE&at=2025-11-03T10:42:00Z[&strategy=smc@1.0.0]
+// Re-runs the selected strategy on recorded fixtures exactly as they looked at `at`,
+// so a reported signal can be reproduced without live provider keys.
+import { NextRequest, NextResponse } from "next/server";
+import { adjustFor } from "@/src/market/adjust";
+import { createVirtualClock } from "@/src/market/clock";
+import { createReplayProvider } from "@/src/market/providers/replay";
+import { assetClassOf } from "@/src/market/instruments";
+import { validateQuote } from "@/src/market/validation";
+import { resampleFor } from "@/src/market/resample";
+import { DEFAULT_BASE, DEFAULT_LOOKBACK_MS } from "@/src/market/resolution";
+import type { Candle, Timeframe } from "@/src/market/types";
+import { getStrategy, loadStrategySelection, parseStrategyRef, runStrategy, strategyTimeframes } from "@/src/strategies";
+
+const HISTORY_DAYS = 300;
+
+export async function GET(req: NextRequest) {
+  const { searchParams } = new URL(req.url);
+  const symbol = searchParams.get("symbol");
+  const atParam = searchParams.get("at");
+  const strategy = searchParams.get("strategy");
+
+  if (!symbol) return NextResponse.json({ error: "Missing symbol" }, { status: 400 });
+  const at = atParam ? (/^\d+$/.test(atParam) ? Number(atParam) : Date.parse(atParam)) : NaN;
+  if (!Number.isFinite(at)) return NextResponse.json({ error: "at must be a ms epoch or ISO date" }, { status: 400 });
+  if (strategy) {
+    const ref = parseStrategyRef(strategy);
+    if (!getStrategy(ref.id, ref.version)) return NextResponse.json({ error: `Unknown strategy ${strategy}` }, { status: 400 });
+  }
+
+  const selection = strategy ? { default: strategy } : loadStrategySelection();
+  const assetClass = assetClassOf(symbol);
+  const replay = createReplayProvider(undefined, createVirtualClock(at));
+  const [recorded, candles] = await Promise.all([
+    replay.getQuote(symbol),
+    replay.getCandles(symbol, { resolution: "1D", from: at - HISTORY_DAYS * 86_400_000, to: at }),
+  ]);
+  if (!recorded) return NextResponse.json({ error: `No recorded quote for ${symbol} at or before ${atParam}` }, { status: 404 });
+
+  // grade it the way the live chain would have at that moment
+  const quote = validateQuote(recorded, { now: at, staleAfterMs: Number(process.env.MARKET_DATA_STALE_AFTER_MS ?? 15 * 60_000) });
+  const bars = await adjustFor(symbol, candles ?? [], "splits");
+
+  // extra series for multi-timeframe strategies, rebuilt from recorded bars the same way
+  const timeframes: Partial<Record<Timeframe, Candle[]>> = {};
+  for (const tf of strategyTimeframes(symbol, assetClass, selection)) {
+    const base = DEFAULT_BASE[tf];
+    const raw = await replay.getCandles(symbol, { resolution: base, from: at - DEFAULT_LOOKBACK_MS[base], to: at });
+    try {
+      timeframes[tf] = resampleFor(symbol, await adjustFor(symbol, raw ?? [], "splits"), base, tf);
+    } catch (err) {
+      console.warn(`⚠️ replay cannot build ${symbol} ${tf}:`, err);
+    }
+  }
+  const signal = runStrategy(
+    {
+      symbol,
+      assetClass,
+      quote: {
+        price: quote.price,
+        previousClose: quote.previousClose ?? quote.price,
+        open: quote.open,
+        high: quote.high,
+        low: quote.low,
+        quality: quote.quality,
+      },
+      candles: bars,
+      timeframes,
+      time: at,
+    },
+    selection
+  );
+
+  return NextResponse.json({ symbol, at, quote, bars: bars.length, signal });
+}
@@ -0,0 +1,29 @@
+// app/api/strategies/route.ts
+// GET  /api/strategies           -> registered strategies, the rule feature catalog and the server selection
+// POST /api/strategies {rule}    -> validates a rule-strategy definition before an editor saves it
+import { NextRequest, NextResponse } from "next/server";
+import { featureCatalog, listStrategies, loadStrategySelection, validateRuleDefinition } from "@/src/strategies";
+
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  const strategies = listStrategies().map(({ id, version, name, description, assetClasses }) => ({
+    id,
+    version,
+    name,
+    description,
+    assetClasses: assetClasses ?? null,
+  }));
+  return NextResponse.json({ strategies, features: featureCatalog(), selection: loadStrategySelection() });
+}
+
+export async function POST(req: NextRequest) {
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Body must be JSON" }, { status: 400 });
+  }
+  const errors = validateRuleDefinition(body);
+  return NextResponse.json({ valid: errors.length === 0, errors }, { status: errors.length ? 422 : 200 });
+}
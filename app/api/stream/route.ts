@@ -0,0 +1,80 @@
+// app/api/stream/route.ts
+// Server-Sent Events: GET /api/stream?symbols=NSE:RELIANCE,BINANCE:BTCUSDT
+// Each event is a normalized Quote as JSON. EventSource reconnects on its own.
+// Every symbol costs provider quota on the shared hub, so only instruments from the
+// master are accepted, at most one of each per connection.
+import { NextRequest } from "next/server";
+import { canonicalSymbol, getInstrument, instruments } from "@/src/market/instruments";
+import { getStreamHub } from "@/src/market/streamHub";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const HEARTBEAT_MS = 15_000; // keeps proxies from closing idle connections
+
+// listed instruments only; getInstrument would also infer any NSE:/USDT-looking symbol
+const LISTED = new Set(instruments.map((i) => i.id));
+
+function badRequest(error: string) {
+  return new Response(JSON.stringify({ error }), {
+    status: 400,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+export async function GET(req: NextRequest) {
+  const requested = (req.nextUrl.searchParams.get("symbols") ?? "")
+    .split(",")
+    .map((s) => s.trim())
+    .filter(Boolean);
+
+  if (!requested.length) return badRequest("No symbols provided");
+  if (requested.length > instruments.length) return badRequest(`At most ${instruments.length} symbols per stream`);
+  const unknown = requested.filter((s) => !LISTED.has(getInstrument(s)?.id ?? ""));
+  if (unknown.length) return badRequest(`Unknown symbols: ${unknown.join(", ")}`);
+  const symbols = Array.from(new Set(requested.map(canonicalSymbol)));
+
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream({
+    start(controller) {
+      const send = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          cleanup();
+        }
+      };
+
+      const unsubscribe = getStreamHub().subscribe(symbols, (quote) => {
+        send(`event: quote\ndata: ${JSON.stringify(quote)}\n\n`);
+      });
+      const heartbeat = setInterval(() => send(`: ping\n\n`), HEARTBEAT_MS);
+
+      cleanup = () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+        cleanup = () => {};
+      };
+
+      req.signal.addEventListener("abort", () => {
+        cleanup();
+        try {
+          controller.close();
+        } catch {}
+      });
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
@@ -6,24 +6,36 @@ import StockCard from "@/components/StockCard";
 import NotificationToast from "@/components/NotificationToast";
 import { useRouter } from "next/navigation";
 import { supabase } from "@/src/lib/supabaseClient";
-import saveTradeToSupabase, { saveTargetHitToSupabase } from "@/src/supabase/trades";
-import { getUserTrades, getTargetHitTrades } from "@/src/supabase/getUserTrades";
+import saveTradeToSupabase, { advanceTrade, liveTradesBySymbol } from "@/src/supabase/trades";
+import { ExitMarket, exitMarket } from "@/src/trading/exits";
+import { getUserTrades, getTargetHitTrades, TradeRecord } from "@/src/supabase/getUserTrades";
+import { loadWeightProfiles } from "@/src/supabase/weightProfiles";
 import { RL } from "@/src/quant/rlModel";
 import { applyAdaptiveConfidence } from "@/src/quant/confidenceEngine";
-import { generateSMCSignal, StockDisplay } from "@/src/utils/xaiLogic";
+import { StockDisplay } from "@/src/utils/xaiLogic";
+import { formatStrategyRef, runStrategy, strategyTimeframes } from "@/src/strategies";
 import { symbols as allSymbolsRaw } from "@/src/api/symbols";
+import { fetchCandles, fetchTimeframes } from "@/src/api/fetchCandles";
+import type { Candle, Quote, Timeframe } from "@/src/market/types";
+import { canonicalSymbol, displaySymbol as toDisplaySymbol, getInstrument } from "@/src/market/instruments";
+import { isMarketOpen } from "@/src/market/calendar";
+import { describePosition, sizeFor } from "@/src/quant/positionSizing";
+import { signalLevels } from "@/src/quant/riskLevels";
+import { isUsableQuote } from "@/src/market/validation";
+import { useQuoteStream } from "@/src/hooks/useQuoteStream";
 
 const FIXED_SIGNAL_TIMESTAMP = new Date().setHours(0, 0, 0, 0);
 const CLIENT_CACHE_DURATION = 30 * 1000;
+const SIGNAL_REFRESH_INTERVAL = 60_000; // signals only; prices arrive over /api/stream
 const CHUNK_SIZE = 10;
-let clientCache: Record<string, any> = {};
+let clientCache: Record<string, Quote | null> = {};
 let lastClientFetch = 0;
 
 export default function HomePage() {
   const router = useRouter();
 
   const [displayStocks, setDisplayStocks] = useState<StockDisplay[]>([]);
-  const [livePrices, setLivePrices] = useState<Record<string, any>>({});
+  const [livePrices, setLivePrices] = useState<Record<string, Quote | null>>({});
   const [loading, setLoading] = useState(false);
   const [search, setSearch] = useState("");
   const [searchResults, setSearchResults] = useState<StockDisplay[]>([]);
@@ -33,6 +45,15 @@ export default function HomePage() {
   const [targetHitTrade, setTargetHitTrade] = useState<any | null>(null);
 
   const lastSignalsRef = useRef<Record<string, string>>({});
+  const candlesRef = useRef<Record<string, Candle[]>>({});
+  const timeframesRef = useRef<Record<string, Partial<Record<Timeframe, Candle[]>>>>({});
+  // latest computed card per canonical symbol, so streamed ticks can re-check hits
+  const tradesRef = useRef<Record<string, { stock: StockDisplay; prev: number }>>({});
+  // the user's running trades by canonical symbol, and which of them have a save in flight
+  const liveTradesRef = useRef<Record<string, TradeRecord>>({});
+  const advancingRef = useRef<Set<string>>(new Set());
+  // ATR/swings for trailing stops, rebuilt with each refresh's candles
+  const exitMarketsRef = useRef<Record<string, ExitMarket>>({});
   const mountedRef = useRef(true);
 
   useEffect(() => {
@@ -70,6 +91,10 @@ export default function HomePage() {
     return () => listener.subscription.unsubscribe();
   }, []);
 
+  useEffect(() => {
+    liveTradesRef.current = liveTradesBySymbol(savedTrades);
+  }, [savedTrades]);
+
   useEffect(() => {
     try {
       const raw = localStorage.getItem("lastSignals");
@@ -79,14 +104,6 @@ export default function HomePage() {
     }
   }, []);
 
-  // Symbol map to Finnhub expected form
-  const apiSymbol = (symbol: string) => {
-    if (symbol === "BTCUSDT") return "BINANCE:BTCUSDT";
-    if (symbol === "ETHUSDT") return "BINANCE:ETHUSDT";
-    if (symbol === "XAUUSD") return "OANDA:XAUUSD";
-    return symbol;
-  };
-
   // small beep using WebAudio
   const playBeep = () => {
     try {
@@ -109,19 +126,19 @@ export default function HomePage() {
   };
 
   // robust chunked fetch
-  const fetchLivePrices = async (symbols: string[]): Promise<Record<string, any>> => {
+  const fetchLivePrices = async (symbols: string[]): Promise<Record<string, Quote | null>> => {
     const now = Date.now();
     if (now - lastClientFetch < CLIENT_CACHE_DURATION && Object.keys(clientCache).length) {
       setLivePrices(clientCache);
       return clientCache;
     }
 
-    const fetchedData: Record<string, any> = {};
+    const fetchedData: Record<string, Quote | null> = {};
 
     const fetchChunk = async (chunk: string[], retries = 3) => {
       for (let attempt = 0; attempt < retries; attempt++) {
         try {
-          const res = await fetch("/api/finnhub", {
+          const res = await fetch("/api/quotes", {
             method: "POST",
             headers: { "Content-Type": "application/json" },
             body: JSON.stringify({ symbols: chunk }),
@@ -136,15 +153,14 @@ export default function HomePage() {
     };
 
     for (let i = 0; i < symbols.length; i += CHUNK_SIZE) {
-      const chunkOriginal = symbols.slice(i, i + CHUNK_SIZE);
-      const chunk = chunkOriginal.map(apiSymbol);
+      const chunk = symbols.slice(i, i + CHUNK_SIZE);
       try {
         const data = await fetchChunk(chunk);
         Object.assign(fetchedData, data);
       } catch (err) {
         console.error("Chunk failed:", err);
         chunk.forEach((k) => {
-          fetchedData[k] = { c: null, pc: null, o: null, h: null, l: null };
+          fetchedData[k] = null;
         });
       }
     }
@@ -155,6 +171,25 @@ export default function HomePage() {
     return fetchedData;
   };
 
+  // Moves the user's saved trade on this symbol (fill, targets, stop) through its lifecycle.
+  // Runs on every refresh and every streamed tick; hits already recorded are no-ops.
+  const checkHitsAndSave = async (originalSymbol: string, currentPrice?: number) => {
+    // nothing is recorded while the market is shut; a weekend quote is just Friday's last print
+    if (!isMarketOpen(originalSymbol, Date.now())) return;
+    const trade = liveTradesRef.current[originalSymbol];
+    if (!trade || currentPrice === undefined || advancingRef.current.has(originalSymbol)) return;
+    advancingRef.current.add(originalSymbol);
+    try {
+      const updated = await advanceTrade(trade, currentPrice, Date.now(), exitMarketsRef.current[originalSymbol]);
+      if (!updated || updated === trade) return;
+      if (updated.status === "active") liveTradesRef.current[originalSymbol] = updated;
+      else delete liveTradesRef.current[originalSymbol];
+      setSavedTrades((prev) => prev.map((t) => (t.id === updated.id ? updated : t)));
+    } finally {
+      advancingRef.current.delete(originalSymbol);
+    }
+  };
+
   // Hybrid behavior: new signal => notify + ask confirm; target/stop => auto-save
   const maybeNotifyAndSaveHybrid = async (
     originalSymbol: string,
@@ -168,45 +203,7 @@ export default function HomePage() {
     // dedupe identical consecutive signals
     if (lastSignalsRef.current[originalSymbol] === normalizedSignal) {
       // check for target/stop hits even if signal unchanged
-      if (currentPrice !== undefined && trade.targets && trade.targets.length && currentPrice >= Math.max(...trade.targets)) {
-        // auto-save target hit
-        await saveTargetHitToSupabase({
-          userEmail: supabaseUser?.email ?? "unknown",
-          symbol: originalSymbol,
-          type: trade.type === "commodity" ? ("stock" as any) : (trade.type as any),
-          direction: normalizedSignal === "BUY" ? "long" : "short",
-          entryPrice: prevClose,
-          stopLoss: trade.stoploss,
-          targets: trade.targets,
-          confidence: trade.confidence ?? 0,
-          status: "target_hit",
-          provider: "finnhub",
-          timestamp: FIXED_SIGNAL_TIMESTAMP,
-          hitPrice: currentPrice,
-          hitTargetIndex: (() => {
-            if (!trade.targets) return 1;
-            for (let i = trade.targets.length - 1; i >= 0; i--) {
-              if (currentPrice >= trade.targets[i]) return i + 1;
-            }
-            return 1;
-          })(),
-        });
-      } else if (currentPrice !== undefined && trade.stoploss !== undefined && currentPrice <= trade.stoploss) {
-        // auto-save stop loss
-        await saveTradeToSupabase({
-          userEmail: supabaseUser?.email ?? "unknown",
-          symbol: originalSymbol,
-          type: trade.type === "commodity" ? ("stock" as any) : (trade.type as any),
-          direction: normalizedSignal === "BUY" ? "long" : "short",
-          entryPrice: prevClose,
-          confidence: trade.confidence ?? 0,
-          status: "stop_loss",
-          provider: "finnhub",
-          timestamp: FIXED_SIGNAL_TIMESTAMP,
-          stopLoss: trade.stoploss,
-          targets: trade.targets,
-        } as any);
-      }
+      await checkHitsAndSave(originalSymbol, currentPrice);
       return;
     }
 
@@ -239,7 +236,8 @@ export default function HomePage() {
     if (normalizedSignal === "HOLD") return;
 
     // Hybrid mode: ask user to confirm the trade
-    const confirmMsg = `${normalizedSignal} signal detected for ${displaySymbol} at ${currentPrice ?? "-"}.\n\nConfirm and save trade?`;
+    const sizeLine = trade.position ? `\n${describePosition(trade.position)}` : "";
+    const confirmMsg = `${normalizedSignal} signal detected for ${displaySymbol} at ${currentPrice ?? "-"}.${sizeLine}\n\nConfirm and save trade?`;
     const ok = window.confirm(confirmMsg);
     if (ok && supabaseUser?.email) {
       // save the trade as active
@@ -248,10 +246,16 @@ export default function HomePage() {
         symbol: originalSymbol,
         type: trade.type === "commodity" ? ("stock" as any) : (trade.type as any),
         direction: normalizedSignal === "BUY" ? "long" : "short",
-        entryPrice: prevClose,
+        // the price the stop, targets and size were worked out from
+        entryPrice: trade.entry ?? currentPrice ?? prevClose,
         confidence: trade.confidence ?? 0,
-        status: "active",
         provider: "finnhub",
+        strategy: trade.strategy,
+        factors: trade.factors,
+        session: trade.session,
+        quantity: trade.position?.quantity,
+        capitalRequired: trade.position?.capitalRequired,
+        riskAmount: trade.position?.riskAmount,
         timestamp: FIXED_SIGNAL_TIMESTAMP,
         stopLoss: trade.stoploss,
         targets: trade.targets,
@@ -261,32 +265,22 @@ export default function HomePage() {
     }
   };
 
-  // compute default targets/stoploss
-  const computeDefaultStopTargets = (price: number, signal: StockDisplay["signal"]) => {
-    const stoploss = signal === "BUY" ? price * 0.994 : signal === "SELL" ? price * 1.006 : price;
-    const targets =
-      signal === "BUY"
-        ? [price * 1.0078, price * 1.01, price * 1.0132]
-        : signal === "SELL"
-        ? [price * 0.9922, price * 0.99, price * 0.9868]
-        : [];
-    return { stoploss, targets };
-  };
-
   // Manual AI recalculation
   const handleManualAI = () => {
     const recalculated = displayStocks.map((s) => {
-      const original = allSymbolsRaw.find((x) => x.symbol.replace(/\.NS$/, "") === s.symbol)?.symbol ?? s.symbol;
+      const original = canonicalSymbol(s.symbol);
       const price = s.price ?? 0;
-      const smc = generateSMCSignal({
+      const smc = runStrategy({
         symbol: original,
-        current: price,
-        previousClose: price,
-        ohlc: { open: price, high: price, low: price, close: price },
-        history: { prices: [], highs: [], lows: [], volumes: [] },
+        assetClass: s.type,
+        quote: { price, previousClose: price, quality: s.quality },
+        candles: candlesRef.current[original] ?? [],
+        timeframes: timeframesRef.current[original],
       });
 
-      const { stoploss, targets } = computeDefaultStopTargets(price, smc.signal);
+      const { stoploss, targets, rewardRisk } = signalLevels(smc, price);
+      const entry = smc.entryPrice ?? price;
+      const position = smc.signal !== "HOLD" ? sizeFor(original, entry, stoploss) ?? undefined : undefined;
 
       let confidence = 50;
       if (smc.signal === "BUY" || smc.signal === "SELL") {
@@ -299,6 +293,13 @@ export default function HomePage() {
         confidence,
         stoploss,
         targets,
+        entry,
+        rewardRisk,
+        position,
+        explanation: smc.explanation ?? "",
+        strategy: formatStrategyRef(smc.strategy),
+        factors: smc.factors,
+        session: smc.session,
         hitStatus: targets.length ? (price >= Math.max(...targets) ? "TARGET ✅" : price <= stoploss ? "STOP ❌" : "ACTIVE") : "ACTIVE",
       } as StockDisplay;
     });
@@ -309,36 +310,55 @@ export default function HomePage() {
   // core loadData
   const loadData = async () => {
     setLoading(true);
+    // profiles edited in the DB take effect on the next refresh (cached for a few minutes)
+    await loadWeightProfiles();
 
-    const live = await fetchLivePrices(allSymbolsRaw.map((s) => s.symbol));
+    // prefer streamed quotes; fall back to a snapshot fetch for anything not streamed yet
+    const streamed = streamQuotesRef.current;
+    const missing = allSymbolsRaw.map((s) => s.symbol).filter((sym) => !streamed[sym]);
+    const live: Record<string, Quote | null> = { ...(missing.length ? await fetchLivePrices(missing) : {}), ...streamed };
     const computed: StockDisplay[] = [];
 
     for (const s of allSymbolsRaw) {
       try {
-        const mappedKey = apiSymbol(s.symbol);
-        const lp = live[mappedKey] || {};
-        const price = (lp.c ?? lp.pc) ?? 0;
-        const prev = lp.pc ?? price;
+        const lp = live[s.symbol];
+        // the chain never hands out zero/NaN prices; no quote means no card this round
+        if (!lp) {
+          console.warn("no valid quote, skipping", s.symbol);
+          continue;
+        }
+        const price = lp.price;
+        const prev = lp.previousClose ?? price;
+
+        const type: StockDisplay["type"] = getInstrument(s.symbol)?.assetClass ?? "stock";
 
-        const smc = generateSMCSignal({
+        // daily history plus any intraday series the strategy reads (cached client-side between refreshes)
+        const [candles, timeframes] = await Promise.all([
+          fetchCandles(s.symbol, "1D"),
+          fetchTimeframes(s.symbol, strategyTimeframes(s.symbol, type)),
+        ]);
+        candlesRef.current[s.symbol] = candles;
+        exitMarketsRef.current[s.symbol] = exitMarket(candles, getInstrument(s.symbol)?.lotSize);
+        timeframesRef.current[s.symbol] = timeframes;
+
+        const smc = runStrategy({
           symbol: s.symbol,
-          current: price,
-          previousClose: prev,
-          ohlc: { open: lp.o ?? prev, high: lp.h ?? price, low: lp.l ?? price, close: price },
-          history: { prices: [], highs: [], lows: [], volumes: [] },
+          assetClass: type,
+          quote: { price, previousClose: prev, open: lp.open, high: lp.high, low: lp.low, quality: lp.quality },
+          candles,
+          timeframes,
         });
 
-        const { stoploss, targets } = computeDefaultStopTargets(prev, smc.signal);
+        const { stoploss, targets, rewardRisk } = signalLevels(smc, price);
+        const entry = smc.entryPrice ?? price;
+        const position = smc.signal !== "HOLD" ? sizeFor(s.symbol, entry, stoploss) ?? undefined : undefined;
 
         let confidence = 50;
         if (smc.signal === "BUY" || smc.signal === "SELL") {
           confidence = Math.min(100, Math.max(70, applyAdaptiveConfidence(smc.confidence ?? 50, RL.getWeight(s.symbol))));
         }
 
-        const displaySymbol = s.symbol.replace(/\.NS$/, "");
-
-        const type: StockDisplay["type"] =
-          displaySymbol === "XAUUSD" ? ("commodity" as any) : displaySymbol === "BTCUSDT" || displaySymbol === "ETHUSDT" ? "crypto" : s.type === "index" ? "index" : "stock";
+        const displaySymbol = toDisplaySymbol(s.symbol);
 
         const stock: StockDisplay = {
           symbol: displaySymbol,
@@ -351,13 +371,21 @@ export default function HomePage() {
           resistance: prev * 1.01,
           stoploss,
           targets,
+          entry,
+          rewardRisk,
+          position,
           hitStatus: targets.length ? (price >= Math.max(...targets) ? "TARGET ✅" : price <= stoploss ? "STOP ❌" : "ACTIVE") : "ACTIVE",
+          quality: lp.quality,
+          strategy: formatStrategyRef(smc.strategy),
+          factors: smc.factors,
+          session: smc.session,
         };
 
         computed.push(stock);
+        tradesRef.current[s.symbol] = { stock, prev };
 
-        // hybrid handling (notify + confirm for new signals; auto-save for hits)
-        await maybeNotifyAndSaveHybrid(s.symbol, displaySymbol, stock, prev, price);
+        // hybrid handling (notify + confirm for new signals; auto-save for hits), only on clean data
+        if (isUsableQuote(lp)) await maybeNotifyAndSaveHybrid(s.symbol, displaySymbol, stock, prev, price);
       } catch (err) {
         console.error("symbol proc error", s.symbol, err);
       }
@@ -365,7 +393,7 @@ export default function HomePage() {
 
     if (targetHitTrade) {
       computed.push({
-        symbol: targetHitTrade.symbol.replace(/\.NS$/, ""),
+        symbol: toDisplaySymbol(targetHitTrade.symbol),
         signal: "BUY",
         confidence: 100,
         explanation: "Target hit previously",
@@ -382,9 +410,8 @@ export default function HomePage() {
     // ensure fields
     const enhanced = computed.map((c) => {
       const price = c.price ?? 0;
-      const { stoploss: defStop, targets: defTargets } = computeDefaultStopTargets(price, c.signal);
-      const stop = c.stoploss ?? defStop;
-      const targets = Array.isArray(c.targets) && c.targets.length ? c.targets : defTargets;
+      const stop = c.stoploss ?? price;
+      const targets = Array.isArray(c.targets) ? c.targets : [];
       const support = c.support ?? price * 0.995;
       const resistance = c.resistance ?? price * 1.01;
       const hitStatus = targets.length ? (price >= Math.max(...targets) ? "TARGET ✅" : price <= stop ? "STOP ❌" : "ACTIVE") : "ACTIVE";
@@ -413,10 +440,41 @@ export default function HomePage() {
     setLoading(false);
   };
 
-  // auto-refresh
+  // live ticks: move card prices and re-check target/stop within seconds
+  const hitStatusFor = (price: number, stoploss?: number, targets?: number[]): StockDisplay["hitStatus"] =>
+    targets && targets.length ? (price >= Math.max(...targets) ? "TARGET ✅" : stoploss !== undefined && price <= stoploss ? "STOP ❌" : "ACTIVE") : "ACTIVE";
+
+  const handleTick = (quote: Quote) => {
+    const entry = tradesRef.current[quote.symbol];
+    if (!entry) return;
+    // degraded ticks still move the card but never resolve a target/stop
+    const usable = isUsableQuote(quote);
+    const stock: StockDisplay = {
+      ...entry.stock,
+      price: quote.price,
+      quality: quote.quality,
+      hitStatus: usable ? hitStatusFor(quote.price, entry.stock.stoploss, entry.stock.targets) : entry.stock.hitStatus,
+    };
+    tradesRef.current[quote.symbol] = { ...entry, stock };
+    if (mountedRef.current) {
+      setDisplayStocks((prev) =>
+        prev.map((d) =>
+          d.symbol === stock.symbol && d.type === stock.type ? { ...d, price: stock.price, quality: stock.quality, hitStatus: stock.hitStatus } : d
+        )
+      );
+    }
+    if (!usable) return;
+    checkHitsAndSave(quote.symbol, quote.price).catch((err) => console.error("tick hit check error", err));
+  };
+
+  const streamQuotes = useQuoteStream(allSymbolsRaw.map((s) => s.symbol), handleTick);
+  const streamQuotesRef = useRef(streamQuotes);
+  streamQuotesRef.current = streamQuotes;
+
+  // auto-refresh (signals)
   useEffect(() => {
     loadData();
-    const id = setInterval(loadData, 60_000);
+    const id = setInterval(loadData, SIGNAL_REFRESH_INTERVAL);
     return () => clearInterval(id);
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
@@ -0,0 +1,341 @@
+"use client";
+// app/settings/page.tsx
+// Per-device trading settings, stored in localStorage by the module that reads them.
+
+import { useEffect, useState } from "react";
+import { AccountRisk, loadAccountRisk, saveAccountRisk } from "@/src/quant/positionSizing";
+import type { AssetClass } from "@/src/market/instruments";
+import {
+  listStrategies,
+  loadRuleDefinitions,
+  loadStrategySelection,
+  RuleStrategyDefinition,
+  saveRuleDefinition,
+  saveStrategySelection,
+  StrategySelection,
+} from "@/src/strategies";
+import { ExitRules, ExitRulesConfig, loadExitRules, saveExitRules, TrailMethod } from "@/src/trading/exits";
+
+const inputClass = "w-full p-2 rounded bg-gray-800";
+const buttonClass = "bg-indigo-600 px-4 py-2 rounded hover:bg-indigo-700";
+
+/** Saved / error line under a section's Save button. */
+function SaveResult({ errors, saved }: { errors: string[]; saved: boolean }) {
+  if (errors.length) return <div className="text-sm text-red-400 mt-2">{errors.join("; ")}</div>;
+  return saved ? <div className="text-sm text-green-400 mt-2">Saved</div> : null;
+}
+
+// ---------- Account risk ----------
+
+function AccountRiskSettings() {
+  const [inr, setInr] = useState("");
+  const [usd, setUsd] = useState("");
+  const [riskPct, setRiskPct] = useState("");
+  const [errors, setErrors] = useState<string[]>([]);
+  const [saved, setSaved] = useState(false);
+
+  // localStorage only exists after mount
+  useEffect(() => {
+    const account = loadAccountRisk();
+    setInr(String(account.equity.INR ?? ""));
+    setUsd(String(account.equity.USD ?? ""));
+    setRiskPct(String(account.riskPct));
+  }, []);
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    const equity: AccountRisk["equity"] = {};
+    if (inr.trim()) equity.INR = Number(inr);
+    if (usd.trim()) equity.USD = Number(usd);
+    const errs = saveAccountRisk({ equity, riskPct: Number(riskPct) });
+    setErrors(errs);
+    setSaved(!errs.length);
+  };
+
+  return (
+    <form onSubmit={handleSave} className="bg-gray-900 p-6 rounded-xl mb-6">
+      <h2 className="text-xl font-bold mb-1">Account risk</h2>
+      <p className="text-sm text-gray-400 mb-4">Suggested position sizes risk this share of your capital on the distance to the stop.</p>
+
+      <label className="block text-sm mb-1">Capital (INR)</label>
+      <input type="number" min="0" step="any" className={`${inputClass} mb-3`} value={inr} onChange={(e) => setInr(e.target.value)} />
+
+      <label className="block text-sm mb-1">Capital (USD, also used for USDT pairs)</label>
+      <input type="number" min="0" step="any" className={`${inputClass} mb-3`} value={usd} onChange={(e) => setUsd(e.target.value)} />
+
+      <label className="block text-sm mb-1">Risk per trade (%)</label>
+      <input type="number" min="0" max="100" step="any" className={`${inputClass} mb-4`} value={riskPct} onChange={(e) => setRiskPct(e.target.value)} />
+
+      <button type="submit" className={buttonClass}>
+        Save
+      </button>
+      <SaveResult errors={errors} saved={saved} />
+    </form>
+  );
+}
+
+// ---------- Strategy ----------
+
+const ASSET_CLASSES: { id: AssetClass; label: string }[] = [
+  { id: "stock", label: "Stocks" },
+  { id: "index", label: "Indices" },
+  { id: "crypto", label: "Crypto" },
+  { id: "commodity", label: "Commodities" },
+];
+
+function StrategySettings() {
+  // latest version of each; a pinned "id@version" from elsewhere is kept as long as it isn't changed here
+  const strategies = Array.from(new Map(listStrategies().map((st) => [st.id, st])).values());
+  const [selection, setSelection] = useState<StrategySelection | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [saved, setSaved] = useState(false);
+
+  useEffect(() => setSelection(loadStrategySelection()), []);
+  if (!selection) return null;
+
+  const optionsFor = (assetClass?: AssetClass) =>
+    strategies
+      .filter((st) => !assetClass || !st.assetClasses || st.assetClasses.includes(assetClass))
+      .map((st) => (
+        <option key={st.id} value={st.id}>
+          {st.name}
+        </option>
+      ));
+  // keep a pinned ref selectable so the select shows what is actually saved
+  const pinned = (value: string | undefined) =>
+    value && !strategies.some((st) => st.id === value) ? <option value={value}>{value}</option> : null;
+
+  const setClass = (assetClass: AssetClass, value: string) => {
+    const byAssetClass = { ...selection.byAssetClass };
+    if (value) byAssetClass[assetClass] = value;
+    else delete byAssetClass[assetClass];
+    setSelection({ ...selection, byAssetClass });
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    const errs = saveStrategySelection(selection);
+    setErrors(errs);
+    setSaved(!errs.length);
+  };
+
+  return (
+    <form onSubmit={handleSave} className="bg-gray-900 p-6 rounded-xl mb-6">
+      <h2 className="text-xl font-bold mb-1">Strategy</h2>
+      <p className="text-sm text-gray-400 mb-4">Which strategy generates signals on the dashboard and watchlist.</p>
+
+      <label className="block text-sm mb-1">Default</label>
+      <select className={`${inputClass} mb-3`} value={selection.default} onChange={(e) => setSelection({ ...selection, default: e.target.value })}>
+        {pinned(selection.default)}
+        {optionsFor()}
+      </select>
+
+      {ASSET_CLASSES.map(({ id, label }) => (
+        <div key={id}>
+          <label className="block text-sm mb-1">{label}</label>
+          <select className={`${inputClass} mb-3`} value={selection.byAssetClass?.[id] ?? ""} onChange={(e) => setClass(id, e.target.value)}>
+            <option value="">Same as default</option>
+            {pinned(selection.byAssetClass?.[id])}
+            {optionsFor(id)}
+          </select>
+        </div>
+      ))}
+
+      <button type="submit" className={`${buttonClass} mt-1`}>
+        Save
+      </button>
+      <SaveResult errors={errors} saved={saved} />
+    </form>
+  );
+}
+
+// ---------- Rule strategies ----------
+
+const EXAMPLE_RULE = JSON.stringify(
+  {
+    id: "rsi-dip",
+    version: "1.0.0",
+    name: "RSI dip",
+    buy: { all: [{ left: "rsi14", op: "crossesAbove", right: 30 }, { left: "price", op: ">", right: { feature: "sma200" } }] },
+  },
+  null,
+  2
+);
+
+/** Paste or edit a JSON rule strategy (see src/strategies/rules.ts); saved ones show up in the strategy picker. */
+function RuleStrategySettings({ onSaved }: { onSaved: () => void }) {
+  const [saved, setSaved] = useState<RuleStrategyDefinition[]>([]);
+  const [text, setText] = useState(EXAMPLE_RULE);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [ok, setOk] = useState(false);
+
+  useEffect(() => setSaved(loadRuleDefinitions()), []);
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    let def: RuleStrategyDefinition;
+    try {
+      def = JSON.parse(text);
+    } catch (err) {
+      setErrors([`not valid JSON: ${err instanceof Error ? err.message : err}`]);
+      setOk(false);
+      return;
+    }
+    const errs = saveRuleDefinition(def);
+    setErrors(errs);
+    setOk(!errs.length);
+    if (!errs.length) {
+      setSaved(loadRuleDefinitions());
+      onSaved();
+    }
+  };
+
+  return (
+    <form onSubmit={handleSave} className="bg-gray-900 p-6 rounded-xl mb-6">
+      <h2 className="text-xl font-bold mb-1">Rule strategies</h2>
+      <p className="text-sm text-gray-400 mb-4">Your own buy/sell rules over the strategy features. Saving the same id and version replaces it.</p>
+
+      {saved.length > 0 && (
+        <ul className="text-sm mb-3">
+          {saved.map((d) => (
+            <li key={`${d.id}@${d.version}`}>
+              <button type="button" className="text-indigo-300 hover:underline" onClick={() => setText(JSON.stringify(d, null, 2))}>
+                {d.name} ({d.id}@{d.version})
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <textarea rows={12} className={`${inputClass} mb-4 font-mono text-sm`} value={text} onChange={(e) => setText(e.target.value)} />
+
+      <button type="submit" className={buttonClass}>
+        Save
+      </button>
+      <SaveResult errors={errors} saved={ok} />
+    </form>
+  );
+}
+
+// ---------- Exit rules ----------
+
+type ExitFields = Record<"breakevenAfter" | "trail" | "trailAfter" | "trailAtr" | "partials", string>;
+
+const toFields = (rules: Partial<ExitRules> = {}): ExitFields => ({
+  breakevenAfter: rules.breakevenAfter?.toString() ?? "",
+  trail: rules.trail ?? "",
+  trailAfter: rules.trailAfter?.toString() ?? "",
+  trailAtr: rules.trailAtr?.toString() ?? "",
+  partials: rules.partials?.join(", ") ?? "",
+});
+
+// blank fields are left out, so they fall through to the strategy's own rules and the defaults
+function fromFields(f: ExitFields): Partial<ExitRules> {
+  const rules: Partial<ExitRules> = {};
+  if (f.breakevenAfter.trim()) rules.breakevenAfter = Number(f.breakevenAfter);
+  if (f.trail) rules.trail = f.trail as TrailMethod;
+  if (f.trailAfter.trim()) rules.trailAfter = Number(f.trailAfter);
+  if (f.trailAtr.trim()) rules.trailAtr = Number(f.trailAtr);
+  if (f.partials.trim()) rules.partials = f.partials.split(",").map((p) => Number(p.trim()));
+  return rules;
+}
+
+function ExitRulesSettings() {
+  const strategies = Array.from(new Map(listStrategies().map((st) => [st.id, st.name])).entries());
+  const [config, setConfig] = useState<ExitRulesConfig>({});
+  // "" edits the rules for every strategy, otherwise a strategy id
+  const [scope, setScope] = useState("");
+  const [fields, setFields] = useState<ExitFields>(toFields());
+  const [errors, setErrors] = useState<string[]>([]);
+  const [saved, setSaved] = useState(false);
+
+  useEffect(() => {
+    const loaded = loadExitRules();
+    setConfig(loaded);
+    setFields(toFields(loaded.default));
+  }, []);
+
+  const rulesFor = (c: ExitRulesConfig, id: string) => (id ? c.byStrategy?.[id] : c.default);
+
+  const changeScope = (id: string) => {
+    setScope(id);
+    setFields(toFields(rulesFor(config, id)));
+    setErrors([]);
+    setSaved(false);
+  };
+
+  const setField = (key: keyof ExitFields) => (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) =>
+    setFields({ ...fields, [key]: e.target.value });
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    const rules = fromFields(fields);
+    const next: ExitRulesConfig = scope
+      ? { ...config, byStrategy: { ...config.byStrategy, [scope]: rules } }
+      : { ...config, default: rules };
+    const errs = saveExitRules(next);
+    setErrors(errs);
+    setSaved(!errs.length);
+    if (!errs.length) setConfig(next);
+  };
+
+  return (
+    <form onSubmit={handleSave} className="bg-gray-900 p-6 rounded-xl mb-6">
+      <h2 className="text-xl font-bold mb-1">Exit rules</h2>
+      <p className="text-sm text-gray-400 mb-4">
+        Used for trades you save from now on; open trades keep the rules they started with. Leave a field blank for the default.
+      </p>
+
+      <label className="block text-sm mb-1">Applies to</label>
+      <select className={`${inputClass} mb-3`} value={scope} onChange={(e) => changeScope(e.target.value)}>
+        <option value="">All strategies</option>
+        {strategies.map(([id, name]) => (
+          <option key={id} value={id}>
+            {name}
+          </option>
+        ))}
+      </select>
+
+      <label className="block text-sm mb-1">Move stop to entry after target (0 = never)</label>
+      <input type="number" min="0" step="1" className={`${inputClass} mb-3`} value={fields.breakevenAfter} onChange={setField("breakevenAfter")} />
+
+      <label className="block text-sm mb-1">Trailing stop</label>
+      <select className={`${inputClass} mb-3`} value={fields.trail} onChange={setField("trail")}>
+        <option value="">Default</option>
+        <option value="none">None</option>
+        <option value="atr">ATR</option>
+        <option value="swing">Last swing</option>
+      </select>
+
+      <label className="block text-sm mb-1">Start trailing after target (0 = from entry)</label>
+      <input type="number" min="0" step="1" className={`${inputClass} mb-3`} value={fields.trailAfter} onChange={setField("trailAfter")} />
+
+      <label className="block text-sm mb-1">ATR trail distance (ATRs)</label>
+      <input type="number" min="0" step="any" className={`${inputClass} mb-3`} value={fields.trailAtr} onChange={setField("trailAtr")} />
+
+      <label className="block text-sm mb-1">Share booked at T1, T2, … (e.g. 0.5, 0.3, 0.2)</label>
+      <input type="text" className={`${inputClass} mb-4`} value={fields.partials} onChange={setField("partials")} />
+
+      <button type="submit" className={buttonClass}>
+        Save
+      </button>
+      <SaveResult errors={errors} saved={saved} />
+    </form>
+  );
+}
+
+export default function SettingsPage() {
+  // remount the pickers after a rule strategy is saved, so it can be chosen right away
+  const [rules, setRules] = useState(0);
+  const bump = () => setRules((n) => n + 1);
+
+  return (
+    <div className="min-h-screen text-white p-6 max-w-xl mx-auto">
+      <h1 className="text-2xl font-bold mb-6">Settings</h1>
+      <AccountRiskSettings />
+      <StrategySettings key={`strategy-${rules}`} />
+      <RuleStrategySettings onSaved={bump} />
+      <ExitRulesSettings key={`exits-${rules}`} />
+    </div>
+  );
+}
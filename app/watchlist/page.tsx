@@ -4,13 +4,23 @@
 import React, { useEffect, useMemo, useRef, useState } from "react";
 import Link from "next/link";
 import StockCard from "@/components/StockCard";
-import { fetchStockData } from "@/src/api/fetchStockData";
 import { symbols as allSymbolsRaw } from "@/src/api/symbols";
-import { generateSMCSignal } from "@/src/utils/xaiLogic";
+import { fetchCandles, fetchTimeframes } from "@/src/api/fetchCandles";
+import { formatStrategyRef, runStrategy, strategyTimeframes } from "@/src/strategies";
 import { applyAdaptiveConfidence } from "@/src/quant/confidenceEngine";
 import { RL } from "@/src/quant/rlModel";
-import saveTradeToSupabase, { saveTargetHitToSupabase } from "@/src/supabase/trades";
-import { getUserTrades } from "@/src/supabase/getUserTrades";
+import saveTradeToSupabase, { advanceTrade, liveTradesBySymbol } from "@/src/supabase/trades";
+import { ExitMarket, exitMarket } from "@/src/trading/exits";
+import { getUserTrades, TradeRecord } from "@/src/supabase/getUserTrades";
+import { loadWeightProfiles } from "@/src/supabase/weightProfiles";
+import type { Candle, Quote, QuoteQuality, Timeframe } from "@/src/market/types";
+import type { SignalFactors } from "@/src/utils/signalFactors";
+import { assetClassOf, canonicalSymbol, displaySymbol as toDisplaySymbol, getInstrument } from "@/src/market/instruments";
+import { isMarketOpen } from "@/src/market/calendar";
+import { describePosition, PositionSize, sizeFor } from "@/src/quant/positionSizing";
+import { signalLevels } from "@/src/quant/riskLevels";
+import { isUsableQuote } from "@/src/market/validation";
+import { useQuoteStream } from "@/src/hooks/useQuoteStream";
 
 /* -------------------------------------------------------------------------- *
  * This Watchlist page implements:
@@ -22,12 +32,12 @@ import { getUserTrades } from "@/src/supabase/getUserTrades";
  * - Cached timestamps per symbol (persisted)
  * - RL adaptive confidence
  * - Fixed stoploss/targets until next signal
- * - Live Finnhub fetching with chunking + retries + cache
- * - Auto refresh every 60s
+ * - Live quotes streamed over SSE (/api/stream); chunked fetch as fallback
+ * - Signal refresh every 60s
  * - Pagination (Load more) + chunk logic
  * - Duplicate key fix (unique by display symbol)
  * - Supabase save for trades and target hits
- * - .NS removal for UI
+ * - Display symbols + asset class from the instrument master
  * - Defensive typing: builds objects exactly matching StockCard props
  * -------------------------------------------------------------------------- */
 
@@ -35,19 +45,10 @@ import { getUserTrades } from "@/src/supabase/getUserTrades";
 const CLIENT_CACHE_DURATION = 30_000; // 30s
 const CHUNK_SIZE = 10; // fetch in groups of 10
 const PAGE_SIZE = 40; // how many symbols to consider initially (Load more increases)
-const REFRESH_INTERVAL = 60_000; // 60s
+const REFRESH_INTERVAL = 60_000; // 60s signal refresh; prices arrive over /api/stream
 
 /* -------------------------- Local helper fallbacks ------------------------ */
 /* If you already have these helpers in your repo, import them there and remove the fallback. */
-function fallbackNormalizeSymbolForFinnhub(sym: string) {
-  // Input: "TCS.NS" or "BTCUSDT" or "XAUUSD"
-  const s = sym.toUpperCase();
-  if (s === "BTCUSDT") return "BINANCE:BTCUSDT";
-  if (s === "ETHUSDT") return "BINANCE:ETHUSDT";
-  if (s === "XAUUSD") return "OANDA:XAUUSD";
-  // For NSE symbols, finnhub often uses "TCS.NS" (keeping original)
-  return s;
-}
 function fallbackNormalizeForKey(sym: string) {
   return (sym || "").toString().toUpperCase().replace(/[^A-Z0-9]/g, "");
 }
@@ -81,7 +82,7 @@ function resetSignalTimestamp(sym: string) {
 /* ------------------------------- Types ---------------------------------- */
 /* Minimal UI item used by StockCard — matches StockCard props from your repo */
 type UIStock = {
-  symbol: string; // display symbol without .NS
+  symbol: string; // display symbol (instrument ticker)
   signal: "BUY" | "SELL" | "HOLD";
   confidence: number;
   explanation: string;
@@ -92,10 +93,20 @@ type UIStock = {
   support?: number;
   resistance?: number;
   hitStatus?: "ACTIVE" | "TARGET ✅" | "STOP ❌";
+  quality?: QuoteQuality;
+  /** "id@version" of the strategy that produced the signal. */
+  strategy?: string;
+  factors?: SignalFactors;
+  session?: string;
+  /** Entry the levels and size were worked out from. */
+  entry?: number;
+  /** Reward:risk of each target. */
+  rewardRisk?: number[];
+  position?: PositionSize;
 };
 
 /* ---------------------------- Client cache state ------------------------ */
-let clientCache: Record<string, any> = {};
+let clientCache: Record<string, Quote | null> = {};
 let lastClientFetch = 0;
 
 /* --------------------------- Main Component ----------------------------- */
@@ -114,20 +125,19 @@ export default function WatchlistPage() {
 
   // refs for dedupe + last signals
   const lastSignalsRef = useRef<Record<string, string>>({});
+  const candlesRef = useRef<Record<string, Candle[]>>({});
+  const timeframesRef = useRef<Record<string, Partial<Record<Timeframe, Candle[]>>>>({});
+  // latest card per canonical symbol, so streamed ticks can re-check hits
+  const cardsRef = useRef<Record<string, { ui: UIStock; prev: number }>>({});
+  // the user's running trades by canonical symbol, and which of them have a save in flight
+  const liveTradesRef = useRef<Record<string, TradeRecord>>({});
+  const advancingRef = useRef<Set<string>>(new Set());
+  // ATR/swings for trailing stops, rebuilt with each refresh's candles
+  const exitMarketsRef = useRef<Record<string, ExitMarket>>({});
   const mountedRef = useRef(true);
   const tradeBookRef = useRef<Record<string, { stoploss?: number; targets?: number[]; signal?: string }>>({});
 
   // prefer project helpers if they exist; otherwise use fallback
-  const normalizeSymbolForFinnhub = ((): (s: string) => string => {
-    try {
-      // prefer import if available (won't throw if module exists)
-      // eslint-disable-next-line @typescript-eslint/no-var-requires
-      const maybe = require("@/src/utils/helpers");
-      if (maybe && typeof maybe.normalizeSymbolForFinnhub === "function") return maybe.normalizeSymbolForFinnhub;
-    } catch {}
-    return fallbackNormalizeSymbolForFinnhub;
-  })();
-
   const normalizeForKey = ((): (s: string) => string => {
     try {
       // eslint-disable-next-line @typescript-eslint/no-var-requires
@@ -145,6 +155,10 @@ export default function WatchlistPage() {
     };
   }, []);
 
+  useEffect(() => {
+    liveTradesRef.current = liveTradesBySymbol(savedTrades);
+  }, [savedTrades]);
+
   // load supabase user & saved trades (dynamic import to avoid SSR issues)
   useEffect(() => {
     (async () => {
@@ -191,24 +205,24 @@ export default function WatchlistPage() {
     } catch {}
   };
 
-  /* --------------------------- Finnhub fetching ------------------------ */
-  const fetchChunkedFinnhub = async (symbols: string[]): Promise<Record<string, any>> => {
+  /* ---------------------------- Quote fetching ------------------------- */
+  const fetchChunkedQuotes = async (symbols: string[]): Promise<Record<string, Quote | null>> => {
     const now = Date.now();
     if (now - lastClientFetch < CLIENT_CACHE_DURATION && Object.keys(clientCache).length) {
       return clientCache;
     }
 
-    const fetched: Record<string, any> = {};
+    const fetched: Record<string, Quote | null> = {};
 
     const fetchChunk = async (chunk: string[], retries = 3) => {
       for (let attempt = 0; attempt < retries; attempt++) {
         try {
-          const res = await fetch("/api/finnhub", {
+          const res = await fetch("/api/quotes", {
             method: "POST",
             headers: { "Content-Type": "application/json" },
             body: JSON.stringify({ symbols: chunk }),
           });
-          if (!res.ok) throw new Error("finnhub chunk failed");
+          if (!res.ok) throw new Error("quotes chunk failed");
           return await res.json();
         } catch (err) {
           if (attempt === retries - 1) throw err;
@@ -218,14 +232,13 @@ export default function WatchlistPage() {
     };
 
     for (let i = 0; i < symbols.length; i += CHUNK_SIZE) {
-      const chunkRaw = symbols.slice(i, i + CHUNK_SIZE);
-      const chunk = chunkRaw.map(normalizeSymbolForFinnhub);
+      const chunk = symbols.slice(i, i + CHUNK_SIZE);
       try {
         const data = await fetchChunk(chunk);
         Object.assign(fetched, data);
       } catch (err) {
-        console.error("finnhub chunk error", err);
-        chunk.forEach((k) => (fetched[k] = { c: null, pc: null, o: null, h: null, l: null }));
+        console.error("quotes chunk error", err);
+        chunk.forEach((k) => (fetched[k] = null));
       }
     }
 
@@ -235,18 +248,25 @@ export default function WatchlistPage() {
   };
 
   /* ----------------------- Fixed stop-loss & targets ------------------- */
-  // stoploss fixed at 0.6% -> BUY: *0.994, SELL: *1.006
-  // targets: 0.78%, 1%, 1.32% -> multipliers 1.0078, 1.01, 1.0132 (BUY)
-  function fixedStopTargets(price: number, signal: "BUY" | "SELL" | "HOLD") {
-    if (!price || price <= 0) return { stoploss: 0, targets: [] as number[] };
-    const stoploss = signal === "BUY" ? price * 0.994 : signal === "SELL" ? price * 1.006 : price;
-    const targets =
-      signal === "BUY"
-        ? [price * 1.0078, price * 1.01, price * 1.0132]
-        : signal === "SELL"
-        ? [price * 0.9922, price * 0.99, price * 0.9868]
-        : [];
-    return { stoploss, targets };
+  /* ---------- Target/stop hits (refresh + every streamed tick) --------- */
+  // Moves the user's saved trade on this symbol through its lifecycle; hits already recorded are no-ops.
+  async function checkHitsAndSave(originalSymbol: string, currentPrice?: number) {
+    // nothing is recorded while the market is shut; a weekend quote is just Friday's last print
+    if (!isMarketOpen(originalSymbol, Date.now())) return;
+    const trade = liveTradesRef.current[originalSymbol];
+    if (!trade || currentPrice === undefined || advancingRef.current.has(originalSymbol)) return;
+    advancingRef.current.add(originalSymbol);
+    try {
+      const updated = await advanceTrade(trade, currentPrice, Date.now(), exitMarketsRef.current[originalSymbol]);
+      if (!updated || updated === trade) return;
+      if (updated.status === "active") liveTradesRef.current[originalSymbol] = updated;
+      else delete liveTradesRef.current[originalSymbol];
+      setSavedTrades((prev) => prev.map((t) => (t.id === updated.id ? updated : t)));
+    } catch (err) {
+      console.error("trade lifecycle error", err);
+    } finally {
+      advancingRef.current.delete(originalSymbol);
+    }
   }
 
   /* ------------ Hybrid notify/save logic (new signal vs same) --------- */
@@ -261,59 +281,7 @@ export default function WatchlistPage() {
 
     // if same signal as last time: only auto-save hits
     if (lastSignalsRef.current[originalSymbol] === normalizedSignal) {
-      // target hit -> insert target_hit
-      if (currentPrice !== undefined && uiObj.targets && uiObj.targets.length && currentPrice >= Math.max(...uiObj.targets)) {
-        let hitIndex = 1;
-        for (let i = uiObj.targets.length - 1; i >= 0; i--) {
-          if (currentPrice >= (uiObj.targets?.[i] ?? 0)) {
-            hitIndex = i + 1;
-            break;
-          }
-        }
-        try {
-          await saveTargetHitToSupabase({
-            userEmail: userEmail ?? "unknown",
-            symbol: originalSymbol,
-            type: uiObj.type === "commodity" ? ("stock" as any) : (uiObj.type as any),
-            direction: normalizedSignal === "BUY" ? "long" : "short",
-            entryPrice: prevClose,
-            stopLoss: uiObj.stoploss,
-            targets: uiObj.targets,
-            confidence: uiObj.confidence ?? 0,
-            status: "target_hit",
-            provider: "finnhub",
-            timestamp: getSignalTimestamp(originalSymbol),
-            hitPrice: currentPrice,
-            hitTargetIndex: hitIndex,
-          });
-        } catch (err) {
-          console.error("save target hit error", err);
-        }
-        return;
-      }
-
-      // stoploss hit -> save stop_loss
-      if (currentPrice !== undefined && uiObj.stoploss !== undefined && uiObj.stoploss > 0 && currentPrice <= uiObj.stoploss) {
-        try {
-          await saveTradeToSupabase({
-            userEmail: userEmail ?? "unknown",
-            symbol: originalSymbol,
-            type: uiObj.type === "commodity" ? ("stock" as any) : (uiObj.type as any),
-            direction: normalizedSignal === "BUY" ? "long" : "short",
-            entryPrice: prevClose,
-            confidence: uiObj.confidence ?? 0,
-            status: "stop_loss",
-            provider: "finnhub",
-            timestamp: getSignalTimestamp(originalSymbol),
-            stopLoss: uiObj.stoploss,
-            targets: uiObj.targets,
-          } as any);
-        } catch (err) {
-          console.error("save stop loss error", err);
-        }
-        return;
-      }
-
+      await checkHitsAndSave(originalSymbol, currentPrice);
       return;
     }
 
@@ -344,7 +312,8 @@ export default function WatchlistPage() {
     if (normalizedSignal === "HOLD") return;
 
     // Hybrid behavior: ask user confirm before saving active trade
-    const ok = window.confirm(`${normalizedSignal} on ${displaySymbol} at ${currentPrice ?? "-"}\nSave trade to your account?`);
+    const sizeLine = uiObj.position ? `\n${describePosition(uiObj.position)}` : "";
+    const ok = window.confirm(`${normalizedSignal} on ${displaySymbol} at ${currentPrice ?? "-"}${sizeLine}\nSave trade to your account?`);
     if (ok && userEmail) {
       try {
         await saveTradeToSupabase({
@@ -352,10 +321,16 @@ export default function WatchlistPage() {
           symbol: originalSymbol,
           type: uiObj.type === "commodity" ? ("stock" as any) : (uiObj.type as any),
           direction: normalizedSignal === "BUY" ? "long" : "short",
-          entryPrice: prevClose,
+          // the price the stop, targets and size were worked out from
+          entryPrice: uiObj.entry ?? currentPrice ?? prevClose,
           confidence: uiObj.confidence ?? 0,
-          status: "active",
           provider: "finnhub",
+          strategy: uiObj.strategy,
+          factors: uiObj.factors,
+          session: uiObj.session,
+          quantity: uiObj.position?.quantity,
+          capitalRequired: uiObj.position?.capitalRequired,
+          riskAmount: uiObj.position?.riskAmount,
           timestamp: getSignalTimestamp(originalSymbol),
           stopLoss: uiObj.stoploss,
           targets: uiObj.targets,
@@ -372,12 +347,16 @@ export default function WatchlistPage() {
   /* --------------------------- Core loader ----------------------------- */
   const loadWatchlist = async () => {
     setLoading(true);
+    // profiles edited in the DB take effect on the next refresh (cached for a few minutes)
+    await loadWeightProfiles();
 
     // take symbols up to pageLimit (pagination/load more)
     const limitedSymbols = allSymbolsRaw.slice(0, pageLimit).map((s) => s.symbol);
 
-    // fetch live price chunks
-    const live = await fetchChunkedFinnhub(limitedSymbols);
+    // streamed quotes first; fetch chunks only for symbols the stream hasn't delivered yet
+    const streamed = streamQuotesRef.current;
+    const missing = limitedSymbols.filter((sym) => !streamed[sym]);
+    const live: Record<string, Quote | null> = { ...(missing.length ? await fetchChunkedQuotes(missing) : {}), ...streamed };
 
     // dedupe by display symbol
     const uniqueMap = new Map<string, UIStock>();
@@ -385,22 +364,37 @@ export default function WatchlistPage() {
     for (const rawSym of allSymbolsRaw.slice(0, pageLimit)) {
       const orig = rawSym.symbol;
       try {
-        const apiKey = normalizeSymbolForFinnhub(orig);
-        const lp = live[apiKey] || {};
-        const price = Number(lp.c ?? lp.pc ?? 0);
-        const prev = Number(lp.pc ?? price);
-
-        // sanitize numbers and pass to SMC generator
-        const smc = generateSMCSignal({
+        const lp = live[orig];
+        // no valid quote (the chain rejects zero/NaN prices): leave this symbol out until it recovers
+        if (!lp) continue;
+        const price = lp.price;
+        const prev = lp.previousClose ?? price;
+
+        // asset class from the instrument master
+        const detectedType: UIStock["type"] = assetClassOf(orig);
+
+        // daily history plus any intraday series the strategy reads (cached client-side between refreshes)
+        const [candles, timeframes] = await Promise.all([
+          fetchCandles(orig, "1D"),
+          fetchTimeframes(orig, strategyTimeframes(orig, detectedType)),
+        ]);
+        candlesRef.current[orig] = candles;
+        exitMarketsRef.current[orig] = exitMarket(candles, getInstrument(orig)?.lotSize);
+        timeframesRef.current[orig] = timeframes;
+
+        // run whichever strategy is selected for this symbol / asset class
+        const smc = runStrategy({
           symbol: orig,
-          current: Number(price),
-          previousClose: Number(prev),
-          ohlc: { open: Number(lp.o ?? prev), high: Number(lp.h ?? price), low: Number(lp.l ?? price), close: Number(price) },
-          history: { prices: [], highs: [], lows: [], volumes: [] },
+          assetClass: detectedType,
+          quote: { price: Number(price), previousClose: Number(prev), open: lp.open, high: lp.high, low: lp.low, quality: lp.quality },
+          candles,
+          timeframes,
         });
 
-        // fixed stop/targets for this symbol (persist until next signal change)
-        const { stoploss, targets } = fixedStopTargets(prev, smc.signal as any);
+        // stop/targets from the strategy's risk levels (persist until next signal change)
+        const { stoploss, targets, rewardRisk } = signalLevels(smc, Number(price));
+        const entry = smc.entryPrice ?? Number(price);
+        const position = smc.signal !== "HOLD" ? sizeFor(orig, entry, stoploss) ?? undefined : undefined;
 
         // adaptive confidence: HOLD=50, BUY/SELL 70..100
         let confidence = 50;
@@ -408,14 +402,8 @@ export default function WatchlistPage() {
           confidence = Math.min(100, Math.max(70, applyAdaptiveConfidence(smc.confidence ?? 50, RL.getWeight(orig))));
         }
 
-        // display symbol without .NS
-        const displaySymbol = orig.replace(/\.NS$/, "");
-
-        // detect type required by your StockDisplay (lowercase)
-        let detectedType: UIStock["type"] = "stock";
-        if (/BTC|ETH|SOL|DOGE|USDT/i.test(displaySymbol)) detectedType = "crypto";
-        else if (/NIFTY|BANKNIFTY|SPX|DOW|NASDAQ|FTSE|HSI|N225/i.test(displaySymbol)) detectedType = "index";
-        else if (/XAUUSD|GOLD|SILVER|WTI|BRENT|OIL/i.test(displaySymbol)) detectedType = "commodity";
+        // display symbol without exchange prefix / provider suffix
+        const displaySymbol = toDisplaySymbol(orig);
 
         // Build UIStock that matches StockCard props exactly (no extra fields such as 'current')
         const uiObj: UIStock = {
@@ -429,7 +417,14 @@ export default function WatchlistPage() {
           resistance: prev * 1.01,
           stoploss: stoploss || undefined,
           targets: targets || [],
+          entry,
+          rewardRisk,
+          position,
           hitStatus: targets.length ? (price >= Math.max(...targets) ? "TARGET ✅" : price <= (stoploss ?? -Infinity) ? "STOP ❌" : "ACTIVE") : "ACTIVE",
+          quality: lp.quality,
+          strategy: formatStrategyRef(smc.strategy),
+          factors: smc.factors,
+          session: smc.session,
         };
 
         // dedupe: if same displaySymbol exists, keep the one with higher confidence
@@ -438,8 +433,10 @@ export default function WatchlistPage() {
           uniqueMap.set(displaySymbol, uiObj);
         }
 
-        // Hybrid save/notify
-        await maybeNotifyAndSave(orig, displaySymbol, uiObj, prev, price);
+        cardsRef.current[orig] = { ui: uiObj, prev };
+
+        // Hybrid save/notify (degraded data never opens or resolves trades)
+        if (isUsableQuote(lp)) await maybeNotifyAndSave(orig, displaySymbol, uiObj, prev, price);
       } catch (err) {
         console.error("watchlist loop err", rawSym.symbol, err);
       }
@@ -470,6 +467,31 @@ export default function WatchlistPage() {
     setLoading(false);
   };
 
+  // live ticks: update visible prices and check hits without waiting for the refresh
+  const handleTick = (quote: Quote) => {
+    const entry = cardsRef.current[quote.symbol];
+    if (!entry) return;
+    const { stoploss, targets } = entry.ui;
+    const usable = isUsableQuote(quote);
+    const hitStatus: UIStock["hitStatus"] = !usable
+      ? entry.ui.hitStatus
+      : targets && targets.length
+      ? quote.price >= Math.max(...targets) ? "TARGET ✅" : quote.price <= (stoploss ?? -Infinity) ? "STOP ❌" : "ACTIVE"
+      : "ACTIVE";
+    const ui: UIStock = { ...entry.ui, price: quote.price, quality: quote.quality, hitStatus };
+    cardsRef.current[quote.symbol] = { ...entry, ui };
+    if (mountedRef.current) {
+      setStocks((prev) => prev.map((x) => (x.symbol === ui.symbol ? { ...x, price: ui.price, quality: ui.quality, hitStatus } : x)));
+    }
+    if (!usable) return;
+    checkHitsAndSave(quote.symbol, quote.price).catch((err) => console.error("tick hit check error", err));
+  };
+
+  const streamSymbols = useMemo(() => allSymbolsRaw.slice(0, pageLimit).map((s) => s.symbol), [pageLimit]);
+  const streamQuotes = useQuoteStream(streamSymbols, handleTick);
+  const streamQuotesRef = useRef(streamQuotes);
+  streamQuotesRef.current = streamQuotes;
+
   // initial load + interval
   useEffect(() => {
     loadWatchlist();
@@ -495,8 +517,8 @@ export default function WatchlistPage() {
     (async () => {
       if (!userEmail) return;
       const hits = await getUserTrades(userEmail); // returns trades; adjust if you have separate endpoint
-      // Filter for target_hit entries and keep most recent 10
-      const th = (hits || []).filter((t: any) => t.status === "target_hit").slice(0, 10);
+      // trades with at least one target filled, most recent 10
+      const th = (hits || []).filter((t: any) => t.status === "target_hit" || (t.targets_hit ?? 0) > 0).slice(0, 10);
       setRecentHits(th);
     })();
   }, [userEmail, savedTrades]);
@@ -551,19 +573,34 @@ export default function WatchlistPage() {
               // manual recalc: recompute SMC locally for current list using price snapshot
               const recalculated = stocks.map((s) => {
                 try {
-                  const smc = generateSMCSignal({
-                    symbol: s.symbol,
-                    current: s.price ?? 0,
-                    previousClose: s.price ?? 0,
-                    ohlc: { open: s.price ?? 0, high: s.price ?? 0, low: s.price ?? 0, close: s.price ?? 0 },
-                    history: { prices: [], highs: [], lows: [], volumes: [] },
+                  const smc = runStrategy({
+                    symbol: canonicalSymbol(s.symbol),
+                    assetClass: s.type,
+                    quote: { price: s.price ?? 0, previousClose: s.price ?? 0, quality: s.quality },
+                    candles: candlesRef.current[canonicalSymbol(s.symbol)] ?? [],
+                    timeframes: timeframesRef.current[canonicalSymbol(s.symbol)],
                   });
-                  const { stoploss, targets } = fixedStopTargets(s.price ?? 0, smc.signal as any);
+                  const { stoploss, targets, rewardRisk } = signalLevels(smc, s.price ?? 0);
+                  const entry = smc.entryPrice ?? s.price ?? 0;
+                  const position = smc.signal !== "HOLD" ? sizeFor(canonicalSymbol(s.symbol), entry, stoploss) ?? undefined : undefined;
                   let confidence = 50;
                   if (smc.signal === "BUY" || smc.signal === "SELL") {
-                    confidence = Math.min(100, Math.max(70, applyAdaptiveConfidence(smc.confidence ?? 50, RL.getWeight(s.symbol))));
+                    confidence = Math.min(100, Math.max(70, applyAdaptiveConfidence(smc.confidence ?? 50, RL.getWeight(canonicalSymbol(s.symbol)))));
                   }
-                  return { ...s, signal: smc.signal as any, confidence, stoploss, targets };
+                  return {
+                    ...s,
+                    signal: smc.signal as any,
+                    confidence,
+                    stoploss,
+                    targets,
+                    entry,
+                    rewardRisk,
+                    position,
+                    explanation: smc.explanation ?? "",
+                    strategy: formatStrategyRef(smc.strategy),
+                    factors: smc.factors,
+                    session: smc.session,
+                  };
                 } catch {
                   return s;
                 }
@@ -585,8 +622,13 @@ export default function WatchlistPage() {
         <div className="flex gap-3 overflow-x-auto">
           {recentHits.length ? recentHits.map((h: any, idx: number) => (
             <div key={idx} className="bg-white p-3 rounded shadow min-w-[200px]">
-              <div className="font-semibold">{h.symbol}</div>
+              <div className="font-semibold">{toDisplaySymbol(h.symbol)}</div>
               <div className="text-sm">Hit Price: {h.hit_price ?? h.hitPrice ?? "-"}</div>
+              {h.realized_r != null && (
+                <div className="text-sm">
+                  Realized: {Number(h.realized_r).toFixed(2)}R{h.state && h.state !== "closed" ? " so far" : ""}
+                </div>
+              )}
               <div className="text-xs opacity-70">{new Date(h.hit_timestamp ?? h.timestamp ?? Date.now()).toLocaleString()}</div>
             </div>
           )) : <div className="text-sm opacity-60">No recent hits</div>}
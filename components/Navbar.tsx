@@ -54,6 +54,10 @@ export default function Navbar() {
 
         {/* Right Side */}
         <div className="flex gap-4 items-center">
+          <Link href="/settings" className="text-sm text-gray-300 hover:text-white transition">
+            Settings
+          </Link>
+
           {/* If no user - show Login & Signup */}
           {!user && (
             <>
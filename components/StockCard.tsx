@@ -2,6 +2,9 @@
 "use client";
 
 import React, { useEffect, useState } from "react";
+import type { QuoteQuality } from "@/src/market/types";
+import { describePosition, PositionSize } from "@/src/quant/positionSizing";
+import type { SignalFactors } from "@/src/utils/signalFactors";
 
 export interface StockCardProps {
   symbol: string;
@@ -15,6 +18,15 @@ export interface StockCardProps {
   support?: number;
   resistance?: number;
   hitStatus?: "ACTIVE" | "TARGET ✅" | "STOP ❌";
+  quality?: QuoteQuality;
+  /** Typed breakdown of the signal; shown as chips, with `explanation` as the fallback. */
+  factors?: SignalFactors;
+  /** Session the signal was generated in. */
+  session?: string;
+  /** Reward:risk of each target, shown next to it. */
+  rewardRisk?: number[];
+  /** Suggested size for the signal; BUY/SELL only. */
+  position?: PositionSize;
 }
 
 export default function StockCard({
@@ -29,6 +41,11 @@ export default function StockCard({
   support,
   resistance,
   hitStatus,
+  quality,
+  factors,
+  session,
+  rewardRisk = [],
+  position,
 }: StockCardProps) {
   const adjustedConfidence =
     signal === "HOLD"
@@ -61,6 +78,9 @@ export default function StockCard({
       ? "#ef4444"
       : "#9ca3af";
 
+  // factors that scored or lean one way; neutral context values stay in the tooltip
+  const drivers = (factors?.items ?? []).filter((f) => f.points > 0 || f.direction !== "NEUTRAL");
+
   const normalizedValue = Math.min(Math.max(animatedValue, 0), 100);
   const dashArray = `${normalizedValue}, 100`;
 
@@ -97,7 +117,10 @@ export default function StockCard({
       {/* Right: Info */}
       <div className="flex-1 flex flex-col gap-1">
         <div className="flex justify-between items-center">
-          <h2 className="font-bold text-lg">{symbol}</h2>
+          <h2 className="font-bold text-lg">
+            {symbol}
+            {session && <span className="ml-2 text-xs font-normal text-gray-500">{session}</span>}
+          </h2>
           <span
             className={`px-2 py-1 rounded font-semibold text-white ${
               signal === "BUY"
@@ -113,15 +136,21 @@ export default function StockCard({
 
         <p className="text-sm">
           Price: <span className="font-medium">{price ?? "-"}</span>
+          {quality && quality !== "ok" && (
+            <span className="ml-2 px-1 rounded text-xs bg-amber-100 text-amber-700">
+              ⚠️ {quality === "stale" ? "Stale data" : "Suspect price"}
+            </span>
+          )}
         </p>
         <p className="text-sm">
           Stoploss: <span className="font-medium">{stoploss ?? "-"}</span>
         </p>
         {targets.length > 0 && (
           <p className="text-sm">
-            Targets: {targets.map((t) => t.toFixed(2)).join(", ")}
+            Targets: {targets.map((t, i) => (rewardRisk[i] ? `${t.toFixed(2)} (${rewardRisk[i].toFixed(1)}R)` : t.toFixed(2))).join(", ")}
           </p>
         )}
+        {position && signal !== "HOLD" && <p className="text-sm text-gray-700">{describePosition(position)}</p>}
         {support !== undefined && (
           <p className="text-sm">Support: {support.toFixed(2)}</p>
         )}
@@ -141,8 +170,27 @@ export default function StockCard({
             {hitStatus}
           </p>
         )}
-        {explanation && (
-          <p className="text-xs text-gray-500 mt-1">{explanation}</p>
+        {drivers.length > 0 ? (
+          <div className="flex flex-wrap gap-1 mt-1" title={explanation}>
+            {drivers.map((f) => (
+              <span
+                key={f.key}
+                className={`px-1 rounded text-xs ${
+                  f.direction === "BULLISH"
+                    ? "bg-green-100 text-green-700"
+                    : f.direction === "BEARISH"
+                    ? "bg-red-100 text-red-700"
+                    : "bg-gray-100 text-gray-600"
+                }`}
+              >
+                {f.label}
+                {f.timeframe && <span className="opacity-60"> {f.timeframe}</span>}
+                {f.points > 0 && ` +${f.points}`}
+              </span>
+            ))}
+          </div>
+        ) : (
+          explanation && <p className="text-xs text-gray-500 mt-1">{explanation}</p>
         )}
       </div>
     </div>
@@ -0,0 +1,8 @@
+// instrumentation.ts
+// Runs once per server process at startup: starts the trade monitor so targets
+// and stops are tracked even when no browser is open.
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== "nodejs") return;
+  const { getTradeMonitor } = await import("@/src/trading/monitor");
+  await getTradeMonitor();
+}
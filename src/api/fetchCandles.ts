@@ -0,0 +1,74 @@
+// src/api/fetchCandles.ts
+// Browser-side helper around /api/candles. Follows cursors so callers get the whole range.
+import type { AdjustmentMode } from "@/src/market/adjust";
+import type { Candle, Timeframe } from "@/src/market/types";
+
+type CacheEntry = { candles: Candle[]; expires: number };
+const CACHE: Record<string, CacheEntry> = {};
+const CACHE_TTL = 5 * 60_000; // history moves slowly; quotes refresh separately
+const MAX_PAGES = 10;
+
+export interface HistoryArrays {
+  prices: number[];
+  opens: number[];
+  highs: number[];
+  lows: number[];
+  volumes: number[];
+  times: number[];
+}
+
+export async function fetchCandles(
+  symbol: string,
+  resolution: Timeframe = "1D",
+  range: { from?: number; to?: number } = {},
+  adjust: AdjustmentMode = "splits"
+): Promise<Candle[]> {
+  const key = `${symbol}|${resolution}|${range.from ?? ""}|${range.to ?? ""}|${adjust}`;
+  const cached = CACHE[key];
+  if (cached && cached.expires > Date.now()) return cached.candles;
+
+  const candles: Candle[] = [];
+  let cursor: string | null = null;
+
+  try {
+    for (let page = 0; page < MAX_PAGES; page++) {
+      const params = new URLSearchParams({ symbol, resolution, adjust });
+      if (range.from !== undefined) params.set("from", String(range.from));
+      if (range.to !== undefined) params.set("to", String(range.to));
+      if (cursor) params.set("cursor", cursor);
+
+      const res = await fetch(`/api/candles?${params}`);
+      if (!res.ok) break;
+      const json = await res.json();
+      candles.push(...(json.candles ?? []));
+      cursor = json.nextCursor ?? null;
+      if (!cursor) break;
+    }
+  } catch (err) {
+    console.warn("fetchCandles failed", symbol, err);
+  }
+
+  CACHE[key] = { candles, expires: Date.now() + CACHE_TTL };
+  return candles;
+}
+
+export function toHistoryArrays(candles: Candle[]): HistoryArrays {
+  return {
+    prices: candles.map((c) => c.close),
+    opens: candles.map((c) => c.open),
+    highs: candles.map((c) => c.high),
+    lows: candles.map((c) => c.low),
+    volumes: candles.map((c) => c.volume),
+    times: candles.map((c) => c.time),
+  };
+}
+
+/** Several timeframes at their default ranges, fetched in parallel; empty series are left out. */
+export async function fetchTimeframes(symbol: string, timeframes: Timeframe[]): Promise<Partial<Record<Timeframe, Candle[]>>> {
+  const series = await Promise.all(timeframes.map((tf) => fetchCandles(symbol, tf)));
+  const out: Partial<Record<Timeframe, Candle[]>> = {};
+  timeframes.forEach((tf, i) => {
+    if (series[i].length) out[tf] = series[i];
+  });
+  return out;
+}
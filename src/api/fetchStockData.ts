@@ -1,4 +1,9 @@
 // src/api/fetchStockData.ts
+import { Candle, getMarketClock, getMarketData, QuoteQuality, QuoteSource } from "@/src/market";
+import { adjustFor } from "@/src/market/adjust";
+import { syncCandles } from "@/src/market/candleStore";
+import { ema, last, rsi, sma } from "@/src/quant/indicators";
+
 export interface StockData {
   symbol: string;
   current: number | null;
@@ -10,8 +15,17 @@ export interface StockData {
   highs: number[];
   lows: number[];
   volumes: number[];
+  opens?: number[];
+  /** Bar open times (ms epoch) aligned with the arrays above. */
+  times?: number[];
+  /** The same bars as candles, for strategies. */
+  candles?: Candle[];
   lastUpdated: number;
-  source?: "finnhub" | "cache" | "unknown";
+  source?: QuoteSource | "cache" | "unknown";
+  stale?: boolean;
+  /** "invalid" when no provider returned a usable price; `current` is null then. */
+  quality?: QuoteQuality;
+  issues?: string[];
 
   // Indicators
   rsi?: number;
@@ -25,162 +39,83 @@ type CacheEntry = { data: StockData; expires: number };
 const CACHE: Record<string, CacheEntry> = {};
 const CACHE_TTL = 1000 * 240; // 4 minutes
 
-// ---------- Helpers ----------
-async function safeFetch(url: string, headers: any = {}) {
-  const controller = new AbortController();
-  const timeout = setTimeout(() => controller.abort(), 20000);
-  try {
-    const res = await fetch(url, { signal: controller.signal, headers });
-    if (!res.ok) return null;
-    return await res.json();
-  } catch (err) {
-    console.warn("❌ safeFetch failed:", url, err);
-    return null;
-  } finally {
-    clearTimeout(timeout);
-  }
-}
-
-function delay(ms: number) {
-  return new Promise((resolve) => setTimeout(resolve, ms));
-}
-
-// ---------- Indicators ----------
-function calculateSMA(prices: number[], period: number): number {
-  if (prices.length < period) return 0;
-  const slice = prices.slice(-period);
-  return slice.reduce((a, b) => a + b, 0) / period;
-}
-
-function calculateEMA(prices: number[], period: number, prevEMA?: number): number {
-  if (prices.length < period) return 0;
-  const k = 2 / (period + 1);
-  let ema = prevEMA ?? calculateSMA(prices.slice(0, period), period);
-  for (let i = period; i < prices.length; i++) {
-    ema = prices[i] * k + ema * (1 - k);
-  }
-  return ema;
-}
-
-function calculateRSI(prices: number[], period = 14): number {
-  if (prices.length < period + 1) return 50;
-  let gains = 0;
-  let losses = 0;
-  for (let i = prices.length - period - 1; i < prices.length - 1; i++) {
-    const diff = prices[i + 1] - prices[i];
-    if (diff > 0) gains += diff;
-    else losses -= diff;
-  }
-  const rs = gains / (losses || 1);
-  return 100 - 100 / (1 + rs);
-}
-
-// ---------- Symbol mapping ----------
-const mapFinnhubSymbol = (symbol: string) => {
-  const s = symbol.toUpperCase();
-  if (s === "BTCUSDT") return "BINANCE:BTCUSDT";
-  if (s === "ETHUSDT") return "BINANCE:ETHUSDT";
-  if (s === "XAUUSD") return "OANDA:XAUUSD";
-  if (/^[A-Z]+$/.test(s)) return `${s}.NS`; // NSE stocks
-  return s;
-};
-
-const FINNHUB_KEY = process.env.NEXT_PUBLIC_FINNHUB_KEY;
-
-// ---------- Fetch Finnhub ----------
-async function fetchFinnhubQuote(symbol: string): Promise<StockData | null> {
-  if (!FINNHUB_KEY) return null;
-  const mapped = mapFinnhubSymbol(symbol);
-  const url = `https://finnhub.io/api/v1/quote?symbol=${mapped}&token=${FINNHUB_KEY}`;
-  const data = await safeFetch(url);
-  if (!data) return null;
+// ---------- Main fetch ----------
+const HISTORY_DAYS = 300; // enough daily bars to warm up EMA200
 
+function emptyStockData(symbol: string): StockData {
   return {
     symbol,
-    current: data.c,
-    high: data.h,
-    low: data.l,
-    open: data.o,
-    previousClose: data.pc,
+    current: null,
+    high: null,
+    low: null,
+    open: null,
+    previousClose: null,
     prices: [],
     highs: [],
     lows: [],
     volumes: [],
     lastUpdated: Date.now(),
-    source: "finnhub",
+    source: "unknown",
+    quality: "invalid",
   };
 }
 
-async function fetchFinnhubCandles(symbol: string, resolution: string = "D", count = 200) {
-  if (!FINNHUB_KEY) return null;
-  const mapped = mapFinnhubSymbol(symbol);
-  const now = Math.floor(Date.now() / 1000);
-  const from = now - count * 24 * 60 * 60; // last `count` days
-  const url = `https://finnhub.io/api/v1/stock/candle?symbol=${mapped}&resolution=${resolution}&from=${from}&to=${now}&token=${FINNHUB_KEY}`;
-  const data = await safeFetch(url);
-  if (!data || data.s !== "ok") return null;
-  return data;
-}
-
-// ---------- Main fetch ----------
 export async function fetchStockData(symbol: string): Promise<StockData> {
   try {
     const cached = CACHE[symbol];
     if (cached && cached.expires > Date.now()) return { ...cached.data, source: "cache" };
 
-    // Get quote
-    let result = await fetchFinnhubQuote(symbol);
-
-    // Fetch historical candles for indicators
-    const candles = await fetchFinnhubCandles(symbol);
-    if (candles) {
-      result!.prices = candles.c ?? [];
-      result!.highs = candles.h ?? [];
-      result!.lows = candles.l ?? [];
-      result!.volumes = candles.v ?? [];
-
-      result!.sma20 = calculateSMA(result!.prices, 20);
-      result!.ema50 = calculateEMA(result!.prices, 50);
-      result!.ema200 = calculateEMA(result!.prices, 200);
-      result!.rsi = calculateRSI(result!.prices, 14);
-    }
+    const market = getMarketData();
+    const now = getMarketClock().now();
+    const [quote, series] = await Promise.all([
+      market.getQuote(symbol),
+      syncCandles(symbol, "1D", now - HISTORY_DAYS * 86_400_000, now),
+    ]);
 
-    // fallback if result missing
-    if (!result) {
-      result = {
-        symbol,
-        current: 0,
-        high: null,
-        low: null,
-        open: null,
-        previousClose: null,
-        prices: [],
-        highs: [],
-        lows: [],
-        volumes: [],
-        lastUpdated: Date.now(),
-        source: "unknown",
-      };
-    }
+    // no provider had a valid price; never substitute 0
+    if (!quote) return emptyStockData(symbol);
 
-    CACHE[symbol] = { data: result, expires: Date.now() + CACHE_TTL };
-    return result;
-  } catch (err) {
-    console.error("fetchStockData error", err);
-    return {
+    const result: StockData = {
       symbol,
-      current: 0,
-      high: null,
-      low: null,
-      open: null,
-      previousClose: null,
+      current: quote.price,
+      high: quote.high,
+      low: quote.low,
+      open: quote.open,
+      previousClose: quote.previousClose,
       prices: [],
       highs: [],
       lows: [],
       volumes: [],
-      lastUpdated: Date.now(),
-      source: "unknown",
+      lastUpdated: quote.fetchedAt,
+      source: quote.source,
+      stale: quote.stale,
+      quality: quote.quality,
+      issues: quote.issues,
     };
+
+    // Historical candles for indicators, adjusted so splits/bonuses don't read as crashes
+    const candles = await adjustFor(symbol, series.candles, "splits");
+    if (candles.length) {
+      result.prices = candles.map((c) => c.close);
+      result.highs = candles.map((c) => c.high);
+      result.lows = candles.map((c) => c.low);
+      result.volumes = candles.map((c) => c.volume);
+      result.opens = candles.map((c) => c.open);
+      result.times = candles.map((c) => c.time);
+      result.candles = candles;
+
+      // left undefined until there are enough bars to warm each one up
+      result.sma20 = last(sma(result.prices, 20)) ?? undefined;
+      result.ema50 = last(ema(result.prices, 50)) ?? undefined;
+      result.ema200 = last(ema(result.prices, 200)) ?? undefined;
+      result.rsi = last(rsi(result.prices, 14)) ?? undefined;
+    }
+
+    CACHE[symbol] = { data: result, expires: Date.now() + CACHE_TTL };
+    return result;
+  } catch (err) {
+    console.error("fetchStockData error", err);
+    return emptyStockData(symbol);
   }
 }
 
@@ -191,8 +126,7 @@ export async function fetchMultipleStockData(symbols: string[]): Promise<Record<
 
   for (const s of uncached) {
     const data = await fetchStockData(s);
-    results[s] = data;
-    await delay(1000); // avoid rate limits
+    results[s] = data; // provider rate limits are enforced by the shared limiter
   }
 
   // Add cached symbols
@@ -1,8 +1,23 @@
 // src/pages/api/predict.ts
 import type { NextApiRequest, NextApiResponse } from "next";
-import { generateSMCSignal } from "@/src/utils/xaiLogic";
 import { policyFromContext, RLContext } from "@/src/utils/rlAgent";
 import { fetchStockData } from "@/src/api/fetchStockData";
+import { assetClassOf } from "@/src/market/instruments";
+import { getMarketClock } from "@/src/market";
+import { marketStatus } from "@/src/market/calendar";
+import { loadDefaultTimeframes } from "@/src/market/timeframes";
+import { loadWeightProfiles } from "@/src/supabase/weightProfiles";
+import {
+  entryAllowed,
+  entryWindowFor,
+  getStrategy,
+  loadEntrySessions,
+  loadStrategySelection,
+  parseStrategyRef,
+  runStrategy,
+  StrategySelection,
+  strategyTimeframes,
+} from "@/src/strategies";
 
 const SUPABASE_URL = process.env.NEXT_PUBLIC_SUPABASE_URL!;
 const SUPABASE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY!;
@@ -23,51 +38,76 @@ async function savePredictionToSupabase(payload: any) {
   }
 }
 
-// Helper to ensure trendBias matches RLContext literal type
-function parseTrendBias(explanation?: string): "BULLISH" | "BEARISH" | "NEUTRAL" {
-  if (!explanation) return "NEUTRAL";
-  if (explanation.includes("BULLISH")) return "BULLISH";
-  if (explanation.includes("BEARISH")) return "BEARISH";
-  return "NEUTRAL";
-}
-
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   try {
-    const { symbol, userEmail } = req.body;
+    const { symbol, userEmail, strategy } = req.body;
     if (!symbol) return res.status(400).json({ error: "symbol required" });
 
-    // Fetch candles & stock data
-    const stockData = await fetchStockData(symbol);
-    const prices = stockData.prices ?? [];
-    const highs = stockData.highs ?? [];
-    const lows = stockData.lows ?? [];
-    const volumes = stockData.volumes ?? [];
-    const current = stockData.current ?? stockData.previousClose ?? 0;
+    // an explicit "id" / "id@version" in the body overrides the configured selection
+    let selection: StrategySelection = loadStrategySelection();
+    if (strategy) {
+      const ref = parseStrategyRef(String(strategy));
+      if (!getStrategy(ref.id, ref.version)) return res.status(400).json({ error: `Unknown strategy ${strategy}` });
+      selection = { default: String(strategy) };
+    }
+
+    // Fetch candles & stock data (plus any extra timeframes the strategy reads, and new weight profiles)
+    const assetClass = assetClassOf(symbol);
+    const [stockData, timeframes] = await Promise.all([
+      fetchStockData(symbol),
+      loadDefaultTimeframes(symbol, strategyTimeframes(symbol, assetClass, selection)),
+      loadWeightProfiles(),
+    ]);
+    if (stockData.current === null) {
+      return res.status(503).json({ error: `No valid quote for ${symbol}`, quality: stockData.quality });
+    }
+    const current = stockData.current;
     const prevClose = stockData.previousClose ?? current;
 
-    // Get baseline SMC + indicators
-    const baseline = generateSMCSignal({
-      symbol,
-      current,
-      previousClose: prevClose,
-      prices,
-      highs,
-      lows,
-      volumes,
-    });
+    const now = getMarketClock().now();
+    const canEnter = entryAllowed(marketStatus(symbol, now), entryWindowFor(symbol, assetClass, loadEntrySessions()));
+
+    // Baseline signal + indicators from the selected strategy
+    const baseline = runStrategy(
+      {
+        symbol,
+        assetClass,
+        quote: {
+          price: current,
+          previousClose: prevClose,
+          open: stockData.open,
+          high: stockData.high,
+          low: stockData.low,
+          quality: stockData.quality,
+        },
+        candles: stockData.candles ?? [],
+        timeframes,
+        time: now,
+      },
+      selection
+    );
 
     // Build RLContext
     const context: RLContext = {
-      rsi: (baseline.explanation && /RSI:([0-9]+)/.exec(baseline.explanation)?.[1])
-        ? Number(/RSI:([0-9]+)/.exec(baseline.explanation)![1])
-        : stockData.rsi ?? 50,
+      rsi: baseline.factors?.rsi ?? stockData.rsi ?? 50,
 
       ema50: stockData.ema50 ?? 0,
       ema200: stockData.ema200 ?? 0,
       sma20: stockData.sma20 ?? 0,
-      trendBias: parseTrendBias(baseline.explanation),
+      trendBias: baseline.factors?.trendBias ?? "NEUTRAL",
       smcConfidence: baseline.confidence ?? 50,
       signal: "HOLD", // default, RL will override
+
+      macdHist: baseline.indicators?.macdHist ?? null,
+      bbWidth: baseline.indicators?.bbWidth ?? null,
+      atr: baseline.indicators?.atr ?? null,
+      vwap: baseline.indicators?.vwap ?? null,
+      stochK: baseline.indicators?.stochK ?? null,
+      adx: baseline.indicators?.adx ?? null,
+      plusDI: baseline.indicators?.plusDI ?? null,
+      minusDI: baseline.indicators?.minusDI ?? null,
+      obvSlope: baseline.indicators?.obvSlope ?? null,
+      supertrendDir: baseline.indicators?.supertrendDir ?? null,
     };
 
     // Run RL policy
@@ -78,16 +118,21 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       user_email: userEmail ?? null,
       symbol,
       model_version: "qtable-latest",
-      signal: rl.signal,
+      strategy_id: baseline.strategy.id,
+      strategy_version: baseline.strategy.version,
+      weight_profile: baseline.weights ? `${baseline.weights.id}@${baseline.weights.version}` : null,
+      session: baseline.session,
+      // the policy sees neither data quality nor the entry window, so both are enforced here
+      signal: stockData.quality === "ok" && canEnter ? rl.signal : "HOLD",
       confidence: rl.confidence,
-      context: { baseline, context, rlState: rl.state, qvals: rl.qvals },
+      context: { strategy: baseline.strategy, weights: baseline.weights ?? null, factors: baseline.factors ?? null, baseline, context, rlState: rl.state, qvals: rl.qvals, quality: stockData.quality, issues: stockData.issues },
     };
 
     // Store prediction in Supabase
     await savePredictionToSupabase(prediction);
 
     // Return response to client
-    return res.status(200).json({ ...prediction, explanation: baseline.explanation });
+    return res.status(200).json({ ...prediction, explanation: baseline.explanation, factors: baseline.factors ?? null });
 
   } catch (err: any) {
     console.error("predict error", err);
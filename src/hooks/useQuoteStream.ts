@@ -0,0 +1,36 @@
+// src/hooks/useQuoteStream.ts
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import type { Quote } from "@/src/market/types";
+
+/**
+ * Subscribe to /api/stream for `symbols`. Returns the latest quote per symbol
+ * (keyed by canonical symbol, e.g. "NSE:RELIANCE") and calls `onQuote` for every tick.
+ */
+export function useQuoteStream(symbols: string[], onQuote?: (quote: Quote) => void) {
+  const [quotes, setQuotes] = useState<Record<string, Quote>>({});
+  const onQuoteRef = useRef(onQuote);
+  onQuoteRef.current = onQuote;
+
+  const key = symbols.join(",");
+
+  useEffect(() => {
+    if (!key || typeof EventSource === "undefined") return;
+
+    const source = new EventSource(`/api/stream?symbols=${encodeURIComponent(key)}`);
+    source.addEventListener("quote", (e) => {
+      try {
+        const quote: Quote = JSON.parse((e as MessageEvent).data);
+        setQuotes((prev) => ({ ...prev, [quote.symbol]: quote }));
+        onQuoteRef.current?.(quote);
+      } catch (err) {
+        console.warn("bad stream event", err);
+      }
+    });
+
+    return () => source.close();
+  }, [key]);
+
+  return quotes;
+}
@@ -0,0 +1,87 @@
+// src/market/adjust.ts
+// Back-adjusts OHLCV so splits, bonuses and demergers don't show up as price gaps.
+// Prices before an ex-date are multiplied by the action's factor and volumes divided
+// by it; the latest bars always stay equal to the traded prices.
+import { CorporateAction, getCorporateActions } from "./corporateActions";
+import { ALWAYS_OPEN_HOURS, getInstrument } from "./instruments";
+import { wallClock } from "./sessions";
+import type { Candle } from "./types";
+
+/**
+ * - "none": raw traded prices
+ * - "splits": splits, bonuses and demergers (what signals use)
+ * - "total": also dividends, for total-return style charts
+ */
+export type AdjustmentMode = "none" | "splits" | "total";
+
+export const ADJUSTMENT_MODES: AdjustmentMode[] = ["none", "splits", "total"];
+
+export function isAdjustmentMode(value: string): value is AdjustmentMode {
+  return (ADJUSTMENT_MODES as string[]).includes(value);
+}
+
+/** UTC epoch of midnight on `date` in `timezone`. */
+function localMidnight(date: string, timezone: string) {
+  const wall = Date.parse(`${date}T00:00:00Z`);
+  return wall - (wallClock(wall, timezone) - wall);
+}
+
+/** Price factor for one action, or null when it can't be applied to this series. */
+function factorFor(action: CorporateAction, lastCloseBefore: number | null): number | null {
+  switch (action.type) {
+    case "split":
+      return action.ratio && action.ratioTo ? action.ratio / action.ratioTo : null;
+    case "bonus":
+      return action.ratio && action.ratioTo ? action.ratioTo / (action.ratio + action.ratioTo) : null;
+    case "dividend":
+      if (!action.amount || !lastCloseBefore || action.amount >= lastCloseBefore) return null;
+      return 1 - action.amount / lastCloseBefore;
+    case "demerger":
+      return action.factor ?? null;
+  }
+}
+
+export function adjustCandles(
+  candles: Candle[],
+  actions: CorporateAction[],
+  mode: AdjustmentMode,
+  timezone = ALWAYS_OPEN_HOURS.timezone
+): Candle[] {
+  if (mode === "none" || !actions.length || !candles.length) return candles;
+
+  // Cumulative factor for bars before each cutoff, newest action first
+  const steps: { cutoff: number; factor: number }[] = [];
+  for (const action of actions) {
+    if (action.type === "dividend" && mode !== "total") continue;
+    const cutoff = localMidnight(action.exDate, timezone);
+    const before = candles.filter((c) => c.time < cutoff);
+    const factor = factorFor(action, before.length ? before[before.length - 1].close : null);
+    if (factor && factor > 0 && factor !== 1) steps.push({ cutoff, factor });
+  }
+  if (!steps.length) return candles;
+  steps.sort((a, b) => b.cutoff - a.cutoff);
+
+  return candles.map((c) => {
+    let factor = 1;
+    for (const s of steps) {
+      if (c.time >= s.cutoff) break;
+      factor *= s.factor;
+    }
+    if (factor === 1) return c;
+    return {
+      time: c.time,
+      open: c.open * factor,
+      high: c.high * factor,
+      low: c.low * factor,
+      close: c.close * factor,
+      volume: c.volume / factor,
+    };
+  });
+}
+
+/** adjustCandles() with the symbol's actions and exchange timezone. */
+export async function adjustFor(symbol: string, candles: Candle[], mode: AdjustmentMode): Promise<Candle[]> {
+  if (mode === "none") return candles;
+  const actions = await getCorporateActions(symbol);
+  return adjustCandles(candles, actions, mode, getInstrument(symbol)?.hours.timezone);
+}
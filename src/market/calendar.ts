@@ -0,0 +1,163 @@
+// src/market/calendar.ts
+// Market calendar: exchange holidays on top of the weekly trading hours, and the
+// London/New York killzones gold is traded in. Pure data + lookups like the
+// instrument master, so client components can ask whether a market is open.
+//
+// Holiday lists follow the exchanges' annual circulars and have to be extended each
+// year; MARKET_HOLIDAYS ({"NSE":{"2027-01-26":"Republic Day"}}) adds dates without a deploy.
+import { ALWAYS_OPEN_HOURS, Exchange, getInstrument, TradingHours } from "./instruments";
+import { isoDate, SessionInfo, sessionAt, wallClock } from "./sessions";
+
+// ---------- Holidays ----------
+const NSE_HOLIDAYS: Record<string, string> = {
+  "2025-02-26": "Mahashivratri",
+  "2025-03-14": "Holi",
+  "2025-03-31": "Id-Ul-Fitr",
+  "2025-04-10": "Shri Mahavir Jayanti",
+  "2025-04-14": "Dr. Baba Saheb Ambedkar Jayanti",
+  "2025-04-18": "Good Friday",
+  "2025-05-01": "Maharashtra Day",
+  "2025-08-15": "Independence Day",
+  "2025-08-27": "Ganesh Chaturthi",
+  "2025-10-02": "Mahatma Gandhi Jayanti / Dussehra",
+  "2025-10-21": "Diwali Laxmi Pujan",
+  "2025-10-22": "Diwali Balipratipada",
+  "2025-11-05": "Prakash Gurpurb Sri Guru Nanak Dev",
+  "2025-12-25": "Christmas",
+  "2026-01-26": "Republic Day",
+  "2026-03-03": "Holi",
+  "2026-03-26": "Shri Ram Navami",
+  "2026-03-31": "Shri Mahavir Jayanti",
+  "2026-04-03": "Good Friday",
+  "2026-04-14": "Dr. Baba Saheb Ambedkar Jayanti",
+  "2026-05-01": "Maharashtra Day",
+  "2026-05-28": "Bakri Id",
+  "2026-06-26": "Muharram",
+  "2026-09-14": "Ganesh Chaturthi",
+  "2026-10-02": "Mahatma Gandhi Jayanti",
+  "2026-10-20": "Dussehra",
+  "2026-11-10": "Diwali Balipratipada",
+  "2026-11-24": "Prakash Gurpurb Sri Guru Nanak Dev",
+  "2026-12-25": "Christmas",
+};
+
+const US_HOLIDAYS: Record<string, string> = {
+  "2025-01-01": "New Year's Day",
+  "2025-01-09": "National Day of Mourning",
+  "2025-01-20": "Martin Luther King Jr. Day",
+  "2025-02-17": "Washington's Birthday",
+  "2025-04-18": "Good Friday",
+  "2025-05-26": "Memorial Day",
+  "2025-06-19": "Juneteenth",
+  "2025-07-04": "Independence Day",
+  "2025-09-01": "Labor Day",
+  "2025-11-27": "Thanksgiving Day",
+  "2025-12-25": "Christmas",
+  "2026-01-01": "New Year's Day",
+  "2026-01-19": "Martin Luther King Jr. Day",
+  "2026-02-16": "Washington's Birthday",
+  "2026-04-03": "Good Friday",
+  "2026-05-25": "Memorial Day",
+  "2026-06-19": "Juneteenth",
+  "2026-07-03": "Independence Day (observed)",
+  "2026-09-07": "Labor Day",
+  "2026-11-26": "Thanksgiving Day",
+  "2026-12-25": "Christmas",
+};
+
+// BSE follows the NSE calendar; crypto and OTC gold have no exchange holidays
+const HOLIDAYS: Partial<Record<Exchange, Record<string, string>>> = {
+  NSE: NSE_HOLIDAYS,
+  BSE: NSE_HOLIDAYS,
+  NASDAQ: US_HOLIDAYS,
+  NYSE: US_HOLIDAYS,
+};
+
+let extraHolidays: Partial<Record<Exchange, Record<string, string>>> | null = null;
+
+function configuredHolidays(): Partial<Record<Exchange, Record<string, string>>> {
+  if (extraHolidays) return extraHolidays;
+  extraHolidays = {};
+  const raw = typeof process !== "undefined" ? process.env.MARKET_HOLIDAYS : undefined;
+  if (raw) {
+    try {
+      extraHolidays = JSON.parse(raw);
+    } catch (err) {
+      console.warn("Ignoring MARKET_HOLIDAYS", err);
+    }
+  }
+  return extraHolidays!;
+}
+
+/** Holiday name for an exchange-local "YYYY-MM-DD", or null on a normal day. */
+export function holidayOn(exchange: Exchange, date: string): string | null {
+  return configuredHolidays()[exchange]?.[date] ?? HOLIDAYS[exchange]?.[date] ?? null;
+}
+
+// ---------- Killzones ----------
+export type KillzoneId = "london" | "newyork";
+
+export interface Killzone {
+  id: KillzoneId;
+  name: string;
+  hours: TradingHours;
+}
+
+// ICT killzones, New York time
+export const KILLZONES: Killzone[] = [
+  { id: "london", name: "London KZ", hours: { timezone: "America/New_York", open: "02:00", close: "05:00", days: [1, 2, 3, 4, 5] } },
+  { id: "newyork", name: "NY KZ", hours: { timezone: "America/New_York", open: "07:00", close: "10:00", days: [1, 2, 3, 4, 5] } },
+];
+
+const KILLZONES_BY_EXCHANGE: Partial<Record<Exchange, KillzoneId[]>> = { OANDA: ["london", "newyork"] };
+
+export function isKillzoneId(value: unknown): value is KillzoneId {
+  return KILLZONES.some((k) => k.id === value);
+}
+
+// ---------- Status ----------
+export type ClosedReason = "weekend" | "holiday" | "after-hours";
+
+export interface MarketStatus {
+  open: boolean;
+  /** Short label for cards and stored signals: "NSE", "24/7", "London KZ", "Closed (Holi)". */
+  label: string;
+  session: SessionInfo | null;
+  /** Killzone `time` falls in, for instruments that track them. */
+  killzone: KillzoneId | null;
+  closedReason: ClosedReason | null;
+  holiday: string | null;
+}
+
+function closed(reason: ClosedReason, holiday: string | null = null): MarketStatus {
+  const label = reason === "holiday" ? `Closed (${holiday})` : reason === "weekend" ? "Closed (weekend)" : "Closed";
+  return { open: false, label, session: null, killzone: null, closedReason: reason, holiday };
+}
+
+/** Whether `symbol`'s market is trading at `time`, and which session or killzone it is in. */
+export function marketStatus(symbol: string, time: number): MarketStatus {
+  const inst = getInstrument(symbol);
+  const hours = inst?.hours ?? ALWAYS_OPEN_HOURS;
+  const exchange = inst?.exchange;
+  const session = sessionAt(time, hours);
+
+  if (!session) {
+    const wall = wallClock(time, hours.timezone);
+    const holiday = exchange ? holidayOn(exchange, isoDate(wall)) : null;
+    if (holiday) return closed("holiday", holiday);
+    const weekday = new Date(wall).getUTCDay();
+    return closed(weekday === 0 || weekday === 6 || !hours.days.includes(weekday) ? "weekend" : "after-hours");
+  }
+
+  const holiday = exchange ? holidayOn(exchange, session.date) : null;
+  if (holiday) return closed("holiday", holiday);
+
+  const tracked = exchange ? KILLZONES_BY_EXCHANGE[exchange] ?? [] : [];
+  const zone = KILLZONES.find((k) => tracked.includes(k.id) && sessionAt(time, k.hours));
+  const label = zone ? zone.name : hours === ALWAYS_OPEN_HOURS ? "24/7" : exchange ?? "Open";
+  return { open: true, label, session, killzone: zone?.id ?? null, closedReason: null, holiday: null };
+}
+
+export function isMarketOpen(symbol: string, time: number): boolean {
+  return marketStatus(symbol, time).open;
+}
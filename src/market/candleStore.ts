@@ -0,0 +1,171 @@
+// src/market/candleStore.ts
+// Persistent OHLCV store: one JSON file per symbol + resolution under CANDLE_STORE_DIR.
+// Reads are served from disk; sync only asks providers for bars we don't have yet.
+import { promises as fs } from "fs";
+import path from "path";
+import { getMarketClock, getMarketData, marketDataMode } from ".";
+import { canonicalSymbol } from "./instruments";
+import { RESOLUTION_MS } from "./resolution";
+import type { Candle, ProviderId, Resolution } from "./types";
+
+const STORE_DIR = process.env.CANDLE_STORE_DIR ?? path.join(process.cwd(), ".data", "candles");
+
+// Never re-ask providers more often than this, even for 1m bars
+const MIN_SYNC_INTERVAL_MS = 60_000;
+// ...nor less often than this, so today's forming 1D/1W bar keeps moving
+const MAX_SYNC_INTERVAL_MS = 5 * 60_000;
+
+interface StoredSeries {
+  symbol: string;
+  resolution: Resolution;
+  /** Earliest time providers have answered for; older gaps are backfilled once. */
+  coveredFrom: number;
+  syncedAt: number;
+  /** Last backfill attempt; a failed one is retried after the sync interval, not on every read. */
+  backfilledAt?: number;
+  source: ProviderId | null;
+  candles: Candle[];
+}
+
+function fileFor(symbol: string, resolution: Resolution) {
+  const safe = canonicalSymbol(symbol).replace(/[^A-Z0-9]/g, "_");
+  return path.join(STORE_DIR, `${safe}_${resolution}.json`);
+}
+
+async function load(symbol: string, resolution: Resolution): Promise<StoredSeries | null> {
+  try {
+    const raw = await fs.readFile(fileFor(symbol, resolution), "utf8");
+    return JSON.parse(raw) as StoredSeries;
+  } catch {
+    return null;
+  }
+}
+
+async function save(series: StoredSeries) {
+  const file = fileFor(series.symbol, series.resolution);
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  // write-then-rename so a crash never leaves a half-written file behind
+  const tmp = `${file}.${process.pid}.tmp`;
+  await fs.writeFile(tmp, JSON.stringify(series));
+  await fs.rename(tmp, file);
+}
+
+/**
+ * Merge bars by open time. Incoming bars win, because the last stored bar may
+ * have been captured while it was still forming.
+ */
+export function mergeCandles(existing: Candle[], incoming: Candle[]): Candle[] {
+  const byTime = new Map<number, Candle>();
+  for (const c of existing) byTime.set(c.time, c);
+  for (const c of incoming) byTime.set(c.time, c);
+  return Array.from(byTime.values()).sort((a, b) => a.time - b.time);
+}
+
+// One sync per file at a time. Concurrent callers share the in-flight sync when it
+// covers their range, otherwise queue their own behind it
+const inFlight: Record<string, { from: number; to: number; promise: Promise<StoredSeries> }> = {};
+
+async function doSync(symbol: string, resolution: Resolution, from: number, to: number): Promise<StoredSeries> {
+  const key = canonicalSymbol(symbol);
+  const market = getMarketData();
+  const now = Date.now();
+
+  const stored: StoredSeries = (await load(key, resolution)) ?? {
+    symbol: key,
+    resolution,
+    // nothing asked for yet: the initial fill below sets it from what comes back
+    coveredFrom: to,
+    syncedAt: 0,
+    source: null,
+    candles: [],
+  };
+
+  let candles = stored.candles;
+  let source = stored.source;
+  let changed = false;
+  const interval = Math.min(Math.max(RESOLUTION_MS[resolution], MIN_SYNC_INTERVAL_MS), MAX_SYNC_INTERVAL_MS);
+  let syncDue = now - stored.syncedAt >= interval;
+  const backfillDue = now - (stored.backfilledAt ?? 0) >= interval;
+
+  // Backfill older history the first time someone asks for it
+  if ((from < stored.coveredFrom && backfillDue) || (!candles.length && syncDue)) {
+    const end = candles.length ? candles[0].time : to;
+    const series = await market.getCandles(key, { resolution, from, to: end });
+    stored.backfilledAt = now;
+    if (series) {
+      candles = mergeCandles(candles, series.candles);
+      source = series.source;
+      // the provider answered for the whole range, even if there was nothing before listing
+      stored.coveredFrom = Math.min(stored.coveredFrom, from);
+    }
+    // an initial fill already reaches `to`, no need to forward-fill right after it
+    if (!stored.candles.length) {
+      stored.syncedAt = now;
+      syncDue = false;
+    }
+    changed = true;
+  }
+
+  // Forward fill from the last stored bar (inclusive, to replace a partial bar)
+  const last = candles[candles.length - 1];
+  if (last && to > last.time && syncDue) {
+    const series = await market.getCandles(key, { resolution, from: last.time, to: now });
+    if (series) {
+      candles = mergeCandles(candles, series.candles);
+      source = series.source;
+    }
+    stored.syncedAt = now;
+    changed = true;
+  }
+
+  const next: StoredSeries = { ...stored, candles, source };
+  if (changed) {
+    try {
+      await save(next);
+    } catch (err) {
+      console.warn("⚠️ candleStore save failed:", key, resolution, err);
+    }
+  }
+  return next;
+}
+
+/** Bring the stored series up to date for [from, to] and return the bars in that range. */
+export async function syncCandles(
+  symbol: string,
+  resolution: Resolution,
+  from: number,
+  to: number = getMarketClock().now()
+): Promise<{ candles: Candle[]; source: ProviderId | null }> {
+  // Replays read fixtures directly so bars stored from live sessions can't leak in
+  if (marketDataMode() === "replay") {
+    const series = await getMarketData().getCandles(symbol, { resolution, from, to });
+    return { candles: series?.candles ?? [], source: series?.source ?? null };
+  }
+
+  const key = `${canonicalSymbol(symbol)}|${resolution}`;
+  const running = inFlight[key];
+  if (!running || running.from > from || running.to < to) {
+    const promise: Promise<StoredSeries> = (running?.promise.catch(() => undefined) ?? Promise.resolve())
+      .then(() => doSync(symbol, resolution, from, to))
+      .finally(() => {
+        if (inFlight[key]?.promise === promise) delete inFlight[key];
+      });
+    inFlight[key] = { from, to, promise };
+  }
+  const series = await inFlight[key].promise;
+  return {
+    candles: series.candles.filter((c) => c.time >= from && c.time <= to),
+    source: series.source,
+  };
+}
+
+/** Read stored bars without touching providers (backtests, offline analysis). */
+export async function readCandles(
+  symbol: string,
+  resolution: Resolution,
+  from = 0,
+  to = Number.MAX_SAFE_INTEGER
+): Promise<Candle[]> {
+  const stored = await load(symbol, resolution);
+  return (stored?.candles ?? []).filter((c) => c.time >= from && c.time <= to);
+}
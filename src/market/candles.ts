@@ -0,0 +1,74 @@
+// src/market/candles.ts
+// Paged candle reads for /api/candles and server-side callers.
+import { getMarketClock } from ".";
+import { AdjustmentMode, adjustFor } from "./adjust";
+import { syncCandles } from "./candleStore";
+import { resampleFor } from "./resample";
+import { DEFAULT_BASE, DEFAULT_LOOKBACK_MS, TIMEFRAME_MS } from "./resolution";
+import type { Candle, ProviderId, Resolution, Timeframe } from "./types";
+
+export const DEFAULT_PAGE_SIZE = 500;
+export const MAX_PAGE_SIZE = 5000;
+
+export interface CandlePageRequest {
+  symbol: string;
+  resolution: Timeframe;
+  /** Finer provider resolution to build `resolution` from. Defaults to DEFAULT_BASE. */
+  base?: Resolution;
+  from?: number;
+  to?: number;
+  limit?: number;
+  cursor?: string | null;
+  /** Corporate-action adjustment; defaults to "splits". */
+  adjust?: AdjustmentMode;
+}
+
+export interface CandlePage {
+  symbol: string;
+  resolution: Timeframe;
+  base: Resolution;
+  adjust: AdjustmentMode;
+  source: ProviderId | null;
+  candles: Candle[];
+  /** Pass back as `cursor` to get the next (later) page; null when the range is exhausted. */
+  nextCursor: string | null;
+}
+
+// Cursors are opaque to clients; internally they are the first bar time of the next page
+export function encodeCursor(time: number) {
+  return Buffer.from(String(time)).toString("base64url");
+}
+
+export function decodeCursor(cursor: string): number | null {
+  const time = Number(Buffer.from(cursor, "base64url").toString());
+  return Number.isFinite(time) ? time : null;
+}
+
+export async function getCandlePage(req: CandlePageRequest): Promise<CandlePage> {
+  const to = req.to ?? getMarketClock().now();
+  const base = req.base ?? DEFAULT_BASE[req.resolution];
+  const from = req.from ?? to - DEFAULT_LOOKBACK_MS[base] * Math.max(1, TIMEFRAME_MS[req.resolution] / TIMEFRAME_MS[base]);
+  // whole bars only: a fractional limit would cut the page short without a cursor
+  const limit = Math.min(Math.max(1, Math.floor(Number.isFinite(req.limit) ? req.limit! : DEFAULT_PAGE_SIZE)), MAX_PAGE_SIZE);
+  const start = req.cursor ? decodeCursor(req.cursor) ?? from : from;
+  const adjust = req.adjust ?? "splits";
+
+  // Served from the local store; only bars newer than the last stored one hit providers
+  const series = await syncCandles(req.symbol, base, from, to);
+  // adjust the base series before resampling so bucket highs/lows use comparable prices
+  const adjusted = await adjustFor(req.symbol, series.candles, adjust);
+  const bars = base === req.resolution ? adjusted : resampleFor(req.symbol, adjusted, base, req.resolution);
+  const all = bars.filter((c) => c.time >= start && c.time <= to);
+  const candles = all.slice(0, limit);
+  const next = all[limit];
+
+  return {
+    symbol: req.symbol,
+    resolution: req.resolution,
+    base,
+    adjust,
+    source: series.source,
+    candles,
+    nextCursor: next ? encodeCursor(next.time) : null,
+  };
+}
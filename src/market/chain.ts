@@ -0,0 +1,103 @@
+// src/market/chain.ts
+import { Clock, systemClock } from "./clock";
+import { canonicalSymbol } from "./instruments";
+import { validateCandlesFor, validateQuote } from "./validation";
+import type { Candle, CandleRequest, CandleSeries, MarketDataProvider, ProviderId, Quote } from "./types";
+
+export interface ProviderChainOptions {
+  /** How long a fetched quote is reused before asking providers again. */
+  quoteCacheMs?: number;
+  /** While the market is open, quotes whose exchange timestamp is older than this are flagged `stale`. */
+  staleAfterMs?: number;
+  /** Time source for cache expiry and staleness; replay sessions pass a virtual clock. */
+  clock?: Clock;
+}
+
+export interface ProviderChain {
+  readonly providers: MarketDataProvider[];
+  getQuote(symbol: string): Promise<Quote | null>;
+  getQuotes(symbols: string[]): Promise<Record<string, Quote | null>>;
+  getCandles(symbol: string, req: CandleRequest): Promise<CandleSeries | null>;
+}
+
+/**
+ * Ask each provider in order and return the first usable answer. Every quote goes
+ * through validateQuote(): invalid ones count as a provider failure, and a suspect
+ * one is only returned if no later provider has something better.
+ * When every provider fails, the last good quote is served with `stale: true`
+ * so callers can still render something without mistaking it for live data.
+ */
+export function createProviderChain(
+  providers: MarketDataProvider[],
+  { quoteCacheMs = 15_000, staleAfterMs = 15 * 60_000, clock = systemClock }: ProviderChainOptions = {}
+): ProviderChain {
+  const lastGood: Record<string, Quote> = {};
+
+  const check = (q: Quote, reference?: number | null) => validateQuote(q, { now: clock.now(), staleAfterMs, reference });
+
+  async function getQuote(symbol: string): Promise<Quote | null> {
+    const key = canonicalSymbol(symbol);
+    const cached = lastGood[key];
+    if (cached && clock.now() - cached.fetchedAt < quoteCacheMs) return check(cached);
+
+    let fallback: Quote | null = null;
+    for (const provider of providers) {
+      try {
+        const quote = await provider.getQuote(symbol);
+        if (!quote) continue;
+        const checked = check(quote, cached?.price);
+        if (checked.quality === "invalid") {
+          console.warn(`⚠️ ${provider.id} returned an invalid quote for ${symbol}:`, checked.issues?.join("; "));
+          continue;
+        }
+        if (checked.quality === "ok") {
+          lastGood[key] = quote;
+          return checked;
+        }
+        fallback ??= checked;
+      } catch (err) {
+        console.warn(`⚠️ ${provider.id} quote failed for ${symbol}:`, err);
+      }
+    }
+
+    if (fallback) return fallback;
+    if (!cached) return null;
+    const last = check(cached);
+    return { ...last, stale: true, quality: last.quality === "ok" ? "stale" : last.quality };
+  }
+
+  async function getQuotes(symbols: string[]) {
+    const out: Record<string, Quote | null> = {};
+    await Promise.all(
+      symbols.map(async (s) => {
+        out[s] = await getQuote(s);
+      })
+    );
+    return out;
+  }
+
+  async function getCandles(symbol: string, req: CandleRequest): Promise<CandleSeries | null> {
+    for (const provider of providers) {
+      try {
+        const raw: Candle[] | null = await provider.getCandles(symbol, req);
+        if (!raw || !raw.length) continue;
+        const { candles, dropped } = validateCandlesFor(symbol, raw, req.resolution);
+        if (dropped.invalid || dropped.spikes) {
+          console.warn(`⚠️ ${provider.id} ${symbol} ${req.resolution}: dropped bad bars`, dropped);
+        }
+        if (candles.length) {
+          return { symbol, resolution: req.resolution, candles, source: provider.id };
+        }
+      } catch (err) {
+        console.warn(`⚠️ ${provider.id} candles failed for ${symbol}:`, err);
+      }
+    }
+    return null;
+  }
+
+  return { providers, getQuote, getQuotes, getCandles };
+}
+
+export function isProviderId(id: string): id is ProviderId {
+  return id === "finnhub" || id === "yahoo" || id === "memory" || id === "replay";
+}
@@ -0,0 +1,36 @@
+// src/market/clock.ts
+// Time source for market data. Replay sessions swap the system clock for a
+// virtual one so "now" means the moment a fixture was recorded.
+
+export interface Clock {
+  now(): number;
+}
+
+export const systemClock: Clock = { now: () => Date.now() };
+
+export interface VirtualClock extends Clock {
+  set(time: number): void;
+  advance(ms: number): void;
+}
+
+/**
+ * Starts at `start` and runs at `speed` × real time (0 freezes it, so time
+ * only moves through set()/advance()).
+ */
+export function createVirtualClock(start: number, speed = 0): VirtualClock {
+  let anchorVirtual = start;
+  let anchorReal = Date.now();
+
+  return {
+    now() {
+      return anchorVirtual + (Date.now() - anchorReal) * speed;
+    },
+    set(time: number) {
+      anchorVirtual = time;
+      anchorReal = Date.now();
+    },
+    advance(ms: number) {
+      this.set(this.now() + ms);
+    },
+  };
+}
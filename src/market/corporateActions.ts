@@ -0,0 +1,112 @@
+// src/market/corporateActions.ts
+// Corporate-actions table used to back-adjust history. The built-in rows cover the
+// instruments we list; CORPORATE_ACTIONS_FILE (JSON array of CorporateAction) adds
+// rows or overrides built-in ones with the same symbol + exDate + type.
+import { promises as fs } from "fs";
+import { canonicalSymbol } from "./instruments";
+
+export type CorporateActionType = "split" | "bonus" | "dividend" | "demerger";
+
+export interface CorporateAction {
+  /** Canonical id, e.g. "NSE:RELIANCE". */
+  symbol: string;
+  type: CorporateActionType;
+  /** Ex-date in exchange-local time ("YYYY-MM-DD"); bars before it get adjusted. */
+  exDate: string;
+  /**
+   * split: `ratio` old shares become `ratioTo` new ones (face value 10 → 2 is 1:5).
+   * bonus: `ratio` bonus shares for every `ratioTo` held (1:1 doubles the share count).
+   */
+  ratio?: number;
+  ratioTo?: number;
+  /** dividend: cash per share, in the instrument's currency. */
+  amount?: number;
+  /** demerger (or anything else): price factor applied directly, e.g. discovered price / previous close. */
+  factor?: number;
+  note?: string;
+}
+
+// Ex-dates and ratios from NSE circulars; demerger factors use the special
+// pre-open price discovery against the previous close.
+const BUILT_IN: CorporateAction[] = [
+  { symbol: "NSE:RELIANCE", type: "bonus", exDate: "2017-09-07", ratio: 1, ratioTo: 1 },
+  { symbol: "NSE:RELIANCE", type: "demerger", exDate: "2023-07-20", factor: 2580 / 2841.85, note: "Jio Financial Services" },
+  { symbol: "NSE:RELIANCE", type: "bonus", exDate: "2024-10-28", ratio: 1, ratioTo: 1 },
+  { symbol: "NSE:TATAMOTORS", type: "split", exDate: "2011-09-13", ratio: 1, ratioTo: 5 },
+  { symbol: "NSE:TATAMOTORS", type: "demerger", exDate: "2025-10-14", factor: 400 / 660.75, note: "Commercial vehicles business" },
+  { symbol: "NSE:ITC", type: "bonus", exDate: "2016-06-30", ratio: 1, ratioTo: 2 },
+  { symbol: "NSE:ITC", type: "demerger", exDate: "2025-01-06", factor: 455.8 / 481.35, note: "ITC Hotels" },
+];
+
+const keyOf = (a: CorporateAction) => `${a.symbol}|${a.exDate}|${a.type}`;
+
+let loaded: Promise<Record<string, CorporateAction[]>> | null = null;
+
+const TYPES: CorporateActionType[] = ["split", "bonus", "dividend", "demerger"];
+
+const isPositive = (n: unknown) => typeof n === "number" && Number.isFinite(n) && n > 0;
+
+/** Problems with one row from the file; empty when it can be used. */
+export function validateCorporateAction(row: unknown): string[] {
+  if (typeof row !== "object" || row === null) return ["expected an object"];
+  const a = row as Partial<CorporateAction>;
+  const errors: string[] = [];
+  if (typeof a.symbol !== "string" || !a.symbol.trim()) errors.push("symbol: expected a string");
+  if (!TYPES.includes(a.type as CorporateActionType)) errors.push(`type: expected one of ${TYPES.join(", ")}`);
+  if (typeof a.exDate !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(a.exDate) || Number.isNaN(Date.parse(a.exDate))) {
+    errors.push("exDate: expected YYYY-MM-DD");
+  }
+  if ((a.type === "split" || a.type === "bonus") && !(isPositive(a.ratio) && isPositive(a.ratioTo))) {
+    errors.push("ratio/ratioTo: expected positive numbers");
+  }
+  if (a.type === "dividend" && !isPositive(a.amount)) errors.push("amount: expected a positive number");
+  if (a.type === "demerger" && !isPositive(a.factor)) errors.push("factor: expected a positive number");
+  return errors;
+}
+
+/** Rows from CORPORATE_ACTIONS_FILE; null when the file couldn't be read, so the caller retries. */
+async function readExtra(): Promise<CorporateAction[] | null> {
+  const file = process.env.CORPORATE_ACTIONS_FILE;
+  if (!file) return [];
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(await fs.readFile(file, "utf8"));
+  } catch (err) {
+    console.warn("⚠️ corporate actions file unreadable:", file, err);
+    return null;
+  }
+  if (!Array.isArray(parsed)) {
+    console.warn("⚠️ corporate actions file is not a JSON array:", file);
+    return null;
+  }
+  // one bad row is dropped, not the whole file
+  return parsed.filter((row, i) => {
+    const errors = validateCorporateAction(row);
+    if (errors.length) console.warn(`⚠️ skipping corporate action #${i} in ${file}:`, errors.join("; "));
+    return !errors.length;
+  });
+}
+
+/** All actions for `symbol`, oldest first. */
+export async function getCorporateActions(symbol: string): Promise<CorporateAction[]> {
+  if (!loaded) {
+    loaded = readExtra().then((extra) => {
+      // serve the built-in rows for now, but don't cache them: the next call reads the file again
+      if (extra === null) loaded = null;
+      const merged = new Map<string, CorporateAction>();
+      for (const a of [...BUILT_IN, ...(extra ?? [])]) {
+        const action = { ...a, symbol: canonicalSymbol(a.symbol) };
+        merged.set(keyOf(action), action);
+      }
+      const bySymbol: Record<string, CorporateAction[]> = {};
+      for (const a of merged.values()) (bySymbol[a.symbol] ??= []).push(a);
+      for (const list of Object.values(bySymbol)) list.sort((a, b) => a.exDate.localeCompare(b.exDate));
+      return bySymbol;
+    });
+    // nor an unexpected error
+    loaded.catch(() => {
+      loaded = null;
+    });
+  }
+  return (await loaded)[canonicalSymbol(symbol)] ?? [];
+}
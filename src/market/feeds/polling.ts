@@ -0,0 +1,63 @@
+// src/market/feeds/polling.ts
+// Production feed: polls the provider chain for subscribed symbols and only
+// emits when a quote actually changed.
+import type { ProviderChain } from "../chain";
+import type { Quote } from "../types";
+import type { QuoteFeed } from "./types";
+
+export function createPollingFeed(chain: ProviderChain, intervalMs = 5_000): QuoteFeed {
+  const symbols = new Set<string>();
+  const last: Record<string, Quote> = {};
+  let listener: (quote: Quote) => void = () => {};
+  let timer: ReturnType<typeof setInterval> | null = null;
+  let polling = false;
+
+  async function poll() {
+    if (polling || !symbols.size) return;
+    polling = true;
+    try {
+      const quotes = await chain.getQuotes(Array.from(symbols));
+      for (const [symbol, q] of Object.entries(quotes)) {
+        if (!q || !symbols.has(symbol)) continue;
+        const prev = last[symbol];
+        if (prev && prev.price === q.price && prev.timestamp === q.timestamp) continue;
+        last[symbol] = q;
+        listener(q);
+      }
+    } catch (err) {
+      console.warn("⚠️ polling feed error:", err);
+    } finally {
+      polling = false;
+    }
+  }
+
+  function ensureTimer() {
+    if (symbols.size && !timer) {
+      timer = setInterval(poll, intervalMs);
+      poll();
+    } else if (!symbols.size && timer) {
+      clearInterval(timer);
+      timer = null;
+    }
+  }
+
+  return {
+    id: "polling",
+    subscribe(symbol) {
+      symbols.add(symbol);
+      ensureTimer();
+    },
+    unsubscribe(symbol) {
+      symbols.delete(symbol);
+      delete last[symbol];
+      ensureTimer();
+    },
+    onQuote(fn) {
+      listener = fn;
+    },
+    stop() {
+      symbols.clear();
+      ensureTimer();
+    },
+  };
+}
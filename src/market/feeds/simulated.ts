@@ -0,0 +1,82 @@
+// src/market/feeds/simulated.ts
+// Development feed: random-walks each subscribed symbol once a second so the UI,
+// hit detection and notifications can be exercised without API keys or open markets.
+import type { ProviderChain } from "../chain";
+import type { Quote } from "../types";
+import type { QuoteFeed } from "./types";
+
+const DEFAULT_SEED_PRICE = 100;
+const STEP = 0.0008; // max ±0.08% per tick
+
+export function createSimulatedFeed(seedFrom?: ProviderChain, intervalMs = 1_000): QuoteFeed {
+  const state: Record<string, Quote> = {};
+  const subscribed = new Set<string>();
+  let listener: (quote: Quote) => void = () => {};
+  let timer: ReturnType<typeof setInterval> | null = null;
+
+  function tick() {
+    const now = Date.now();
+    for (const symbol of Object.keys(state)) {
+      const prev = state[symbol];
+      const price = Math.max(0.0001, prev.price * (1 + (Math.random() * 2 - 1) * STEP));
+      const next: Quote = {
+        ...prev,
+        price,
+        high: Math.max(prev.high ?? price, price),
+        low: Math.min(prev.low ?? price, price),
+        timestamp: now,
+        fetchedAt: now,
+      };
+      state[symbol] = next;
+      listener(next);
+    }
+  }
+
+  async function seed(symbol: string) {
+    const real = seedFrom ? await seedFrom.getQuote(symbol).catch(() => null) : null;
+    if (!subscribed.has(symbol)) return; // unsubscribed while we were seeding
+    const price = real?.price || DEFAULT_SEED_PRICE;
+    const now = Date.now();
+    state[symbol] = {
+      symbol,
+      price,
+      open: real?.open ?? price,
+      high: real?.high ?? price,
+      low: real?.low ?? price,
+      previousClose: real?.previousClose ?? price,
+      timestamp: now,
+      fetchedAt: now,
+      source: "simulated",
+      stale: false,
+      quality: "ok",
+    };
+  }
+
+  return {
+    id: "simulated",
+    subscribe(symbol) {
+      if (subscribed.has(symbol)) return;
+      subscribed.add(symbol);
+      // ticks start once seeded, from a real quote when one is available
+      seed(symbol);
+      if (!timer) timer = setInterval(tick, intervalMs);
+    },
+    unsubscribe(symbol) {
+      subscribed.delete(symbol);
+      delete state[symbol];
+      if (!subscribed.size && timer) {
+        clearInterval(timer);
+        timer = null;
+      }
+    },
+    onQuote(fn) {
+      listener = fn;
+    },
+    stop() {
+      subscribed.clear();
+      for (const symbol of Object.keys(state)) delete state[symbol];
+      if (timer) clearInterval(timer);
+      timer = null;
+    },
+  };
+}
@@ -0,0 +1,16 @@
+// src/market/feeds/types.ts
+import type { Quote } from "../types";
+
+export type FeedId = "polling" | "simulated";
+
+/**
+ * Upstream source of live ticks. The stream hub subscribes symbols as clients
+ * ask for them and unsubscribes when the last client leaves.
+ */
+export interface QuoteFeed {
+  readonly id: FeedId;
+  subscribe(symbol: string): void;
+  unsubscribe(symbol: string): void;
+  onQuote(listener: (quote: Quote) => void): void;
+  stop(): void;
+}
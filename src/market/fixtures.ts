@@ -0,0 +1,36 @@
+// src/market/fixtures.ts
+// On-disk format shared by the recording and replay providers: one JSON file per
+// instrument holding every quote seen (in arrival order) and candles per resolution.
+import { promises as fs } from "fs";
+import path from "path";
+import { canonicalSymbol } from "./instruments";
+import type { Candle, Quote, Resolution } from "./types";
+
+export const FIXTURES_DIR = process.env.MARKET_FIXTURES_DIR ?? path.join(process.cwd(), "fixtures", "market");
+
+export interface MarketFixture {
+  symbol: string;
+  quotes: Quote[];
+  candles: Partial<Record<Resolution, Candle[]>>;
+}
+
+export function fixtureFile(symbol: string, dir = FIXTURES_DIR) {
+  return path.join(dir, `${canonicalSymbol(symbol).replace(/[^A-Z0-9]/g, "_")}.json`);
+}
+
+export async function readFixture(symbol: string, dir = FIXTURES_DIR): Promise<MarketFixture | null> {
+  try {
+    return JSON.parse(await fs.readFile(fixtureFile(symbol, dir), "utf8")) as MarketFixture;
+  } catch {
+    return null;
+  }
+}
+
+export async function writeFixture(fixture: MarketFixture, dir = FIXTURES_DIR) {
+  const file = fixtureFile(fixture.symbol, dir);
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  const tmp = `${file}.${process.pid}.tmp`;
+  // pretty-printed so fixtures diff reasonably in review
+  await fs.writeFile(tmp, JSON.stringify(fixture, null, 2));
+  await fs.rename(tmp, file);
+}
@@ -0,0 +1,20 @@
+// src/market/http.ts
+
+/**
+ * GET a JSON document with a hard timeout. Returns null on network errors,
+ * non-2xx responses and invalid JSON so providers can fall through quietly.
+ */
+export async function fetchJson(url: string, timeoutMs = 10000, headers: Record<string, string> = {}) {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    const res = await fetch(url, { signal: controller.signal, headers });
+    if (!res.ok) return null;
+    return await res.json();
+  } catch (err) {
+    console.warn("❌ fetchJson failed:", url.replace(/token=[^&]+/, "token=***"), err);
+    return null;
+  } finally {
+    clearTimeout(timeout);
+  }
+}
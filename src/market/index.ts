@@ -0,0 +1,90 @@
+// src/market/index.ts
+// Server-side entry point for market data. Routes should go through getMarketData()
+// rather than calling Finnhub/Yahoo directly.
+import { createProviderChain, isProviderId, ProviderChain } from "./chain";
+import { Clock, createVirtualClock, systemClock } from "./clock";
+import { createFinnhubProvider } from "./providers/finnhub";
+import { createMemoryProvider, MemoryProvider } from "./providers/memory";
+import { createRecordingProvider } from "./providers/recording";
+import { createReplayProvider } from "./providers/replay";
+import { createYahooProvider } from "./providers/yahoo";
+import type { MarketDataProvider, ProviderId } from "./types";
+
+export * from "./types";
+export { createProviderChain } from "./chain";
+
+// Order is configurable, e.g. MARKET_DATA_PROVIDERS="finnhub,yahoo,memory"
+const DEFAULT_CHAIN: ProviderId[] = ["yahoo", "finnhub"];
+
+export const memoryProvider: MemoryProvider = createMemoryProvider();
+
+/**
+ * MARKET_DATA_MODE:
+ * - "live" (default): configured providers only
+ * - "record": same, and every response is also written to fixture files
+ * - "replay": fixtures only, no network; MARKET_REPLAY_START (ISO or ms) pins the
+ *   virtual clock and MARKET_REPLAY_SPEED lets it run (1 = real time)
+ */
+export type MarketDataMode = "live" | "record" | "replay";
+
+export function marketDataMode(): MarketDataMode {
+  const mode = process.env.MARKET_DATA_MODE?.toLowerCase();
+  return mode === "record" || mode === "replay" ? mode : "live";
+}
+
+let clock: Clock | null = null;
+
+export function getMarketClock(): Clock {
+  if (!clock) {
+    const start = process.env.MARKET_REPLAY_START;
+    const startMs = start ? (/^\d+$/.test(start) ? Number(start) : Date.parse(start)) : NaN;
+    clock =
+      marketDataMode() === "replay" && Number.isFinite(startMs)
+        ? createVirtualClock(startMs, Number(process.env.MARKET_REPLAY_SPEED ?? 0))
+        : systemClock;
+  }
+  return clock;
+}
+
+function buildProvider(id: ProviderId): MarketDataProvider {
+  switch (id) {
+    case "finnhub":
+      return createFinnhubProvider();
+    case "yahoo":
+      return createYahooProvider();
+    case "memory":
+      return memoryProvider;
+    case "replay":
+      return createReplayProvider(undefined, getMarketClock());
+  }
+}
+
+function configuredChain(): ProviderId[] {
+  const raw = process.env.MARKET_DATA_PROVIDERS;
+  if (!raw) return DEFAULT_CHAIN;
+  const ids = raw
+    .split(",")
+    .map((s) => s.trim().toLowerCase())
+    .filter(isProviderId);
+  return ids.length ? ids : DEFAULT_CHAIN;
+}
+
+let chain: ProviderChain | null = null;
+
+export function getMarketData(): ProviderChain {
+  if (!chain) {
+    const mode = marketDataMode();
+    const providers =
+      mode === "replay"
+        ? [buildProvider("replay")]
+        : configuredChain().map((id) => (mode === "record" ? createRecordingProvider(buildProvider(id)) : buildProvider(id)));
+
+    chain = createProviderChain(providers, {
+      // fixtures are already in memory, and caching would hide a virtual clock moving backwards
+      quoteCacheMs: mode === "replay" ? 0 : Number(process.env.MARKET_DATA_QUOTE_CACHE_MS ?? 15_000),
+      staleAfterMs: Number(process.env.MARKET_DATA_STALE_AFTER_MS ?? 15 * 60_000),
+      clock: getMarketClock(),
+    });
+  }
+  return chain;
+}
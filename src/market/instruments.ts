@@ -0,0 +1,242 @@
+// src/market/instruments.ts
+// Instrument master: the single place that knows how a symbol is spelled on each
+// provider, what it trades in and when its market is open. Pure data + lookups so it
+// can be imported from client components as well as routes.
+import type { ProviderId } from "./types";
+
+export type AssetClass = "index" | "stock" | "crypto" | "commodity";
+
+export type Exchange = "NSE" | "BSE" | "NASDAQ" | "NYSE" | "BINANCE" | "OANDA";
+
+export interface TradingHours {
+  /** IANA timezone the open/close times are expressed in. */
+  timezone: string;
+  /** "HH:MM" local time. A close earlier than the open means the session runs past midnight. */
+  open: string;
+  close: string;
+  /** Days (0 = Sunday) on which a session opens. */
+  days: number[];
+}
+
+export interface Instrument {
+  /** Canonical id, "EXCHANGE:TICKER". This is what we store in trades and predictions. */
+  id: string;
+  /** Short symbol shown in the UI. */
+  ticker: string;
+  name: string;
+  exchange: Exchange;
+  assetClass: AssetClass;
+  currency: "INR" | "USD" | "USDT";
+  tickSize: number;
+  lotSize: number;
+  hours: TradingHours;
+  /** Symbol as each provider expects it. Missing entries mean the provider does not carry it. */
+  aliases: Partial<Record<ProviderId, string>>;
+}
+
+// ---------- Trading hours ----------
+const NSE_HOURS: TradingHours = { timezone: "Asia/Kolkata", open: "09:15", close: "15:30", days: [1, 2, 3, 4, 5] };
+const US_HOURS: TradingHours = { timezone: "America/New_York", open: "09:30", close: "16:00", days: [1, 2, 3, 4, 5] };
+export const ALWAYS_OPEN_HOURS: TradingHours = { timezone: "UTC", open: "00:00", close: "24:00", days: [0, 1, 2, 3, 4, 5, 6] };
+// Spot gold: Sunday 18:00 to Friday 17:00 New York, with a one-hour daily break
+const FX_METALS_HOURS: TradingHours = { timezone: "America/New_York", open: "18:00", close: "17:00", days: [0, 1, 2, 3, 4] };
+
+// ---------- Builders ----------
+function nseIndex(ticker: string, name: string, yahoo: string, lotSize = 1): Instrument {
+  return {
+    id: `NSE:${ticker}`,
+    ticker,
+    name,
+    exchange: "NSE",
+    assetClass: "index",
+    currency: "INR",
+    tickSize: 0.05,
+    lotSize,
+    hours: NSE_HOURS,
+    aliases: { yahoo, memory: `NSE:${ticker}` },
+  };
+}
+
+function nseStock(ticker: string, name: string): Instrument {
+  return {
+    id: `NSE:${ticker}`,
+    ticker,
+    name,
+    exchange: "NSE",
+    assetClass: "stock",
+    currency: "INR",
+    tickSize: 0.05,
+    lotSize: 1,
+    hours: NSE_HOURS,
+    aliases: { finnhub: `${ticker}.NS`, yahoo: `${ticker}.NS`, memory: `NSE:${ticker}` },
+  };
+}
+
+function usStock(exchange: "NASDAQ" | "NYSE", ticker: string, name: string): Instrument {
+  return {
+    id: `${exchange}:${ticker}`,
+    ticker,
+    name,
+    exchange,
+    assetClass: "stock",
+    currency: "USD",
+    tickSize: 0.01,
+    lotSize: 1,
+    hours: US_HOURS,
+    aliases: { finnhub: ticker, yahoo: ticker, memory: `${exchange}:${ticker}` },
+  };
+}
+
+function binancePair(base: string, name: string, tickSize: number, lotSize: number): Instrument {
+  const ticker = `${base}USDT`;
+  return {
+    id: `BINANCE:${ticker}`,
+    ticker,
+    name,
+    exchange: "BINANCE",
+    assetClass: "crypto",
+    currency: "USDT",
+    tickSize,
+    lotSize,
+    hours: ALWAYS_OPEN_HOURS,
+    aliases: { finnhub: `BINANCE:${ticker}`, yahoo: `${base}-USD`, memory: `BINANCE:${ticker}` },
+  };
+}
+
+// ---------- Registry ----------
+export const instruments: Instrument[] = [
+  // 📈 Indices (NSE) — lot sizes are the F&O contract lots where one exists
+  nseIndex("NIFTY50", "Nifty 50", "^NSEI", 75),
+  nseIndex("BANKNIFTY", "Nifty Bank", "^NSEBANK", 35),
+  nseIndex("NIFTYIT", "Nifty IT", "^CNXIT"),
+  nseIndex("NIFTYFIN", "Nifty Financial Services", "NIFTY_FIN_SERVICE.NS", 65),
+  nseIndex("NIFTYAUTO", "Nifty Auto", "^CNXAUTO"),
+
+  // 🏦 Major Indian Stocks (NSE)
+  nseStock("RELIANCE", "Reliance Industries"),
+  nseStock("TCS", "Tata Consultancy Services"),
+  nseStock("INFY", "Infosys"),
+  nseStock("HDFCBANK", "HDFC Bank"),
+  nseStock("ICICIBANK", "ICICI Bank"),
+  nseStock("LT", "Larsen & Toubro"),
+  nseStock("SBIN", "State Bank of India"),
+  nseStock("ITC", "ITC"),
+  nseStock("HINDUNILVR", "Hindustan Unilever"),
+  nseStock("MARUTI", "Maruti Suzuki"),
+  nseStock("AXISBANK", "Axis Bank"),
+  nseStock("KOTAKBANK", "Kotak Mahindra Bank"),
+  nseStock("BAJFINANCE", "Bajaj Finance"),
+  nseStock("BHARTIARTL", "Bharti Airtel"),
+  nseStock("SUNPHARMA", "Sun Pharmaceutical"),
+  nseStock("TATAMOTORS", "Tata Motors"),
+  nseStock("TATASTEEL", "Tata Steel"),
+  nseStock("HCLTECH", "HCL Technologies"),
+  nseStock("WIPRO", "Wipro"),
+  nseStock("ADANIENT", "Adani Enterprises"),
+  nseStock("POWERGRID", "Power Grid Corporation"),
+  nseStock("ULTRACEMCO", "UltraTech Cement"),
+  nseStock("ONGC", "Oil & Natural Gas Corporation"),
+  nseStock("COALINDIA", "Coal India"),
+  nseStock("HDFCLIFE", "HDFC Life Insurance"),
+
+  // 🌎 US Stocks
+  usStock("NASDAQ", "TSLA", "Tesla"),
+  usStock("NASDAQ", "AAPL", "Apple"),
+  usStock("NASDAQ", "NVDA", "NVIDIA"),
+
+  // 💎 Cryptos
+  binancePair("BTC", "Bitcoin", 0.01, 0.00001),
+  binancePair("ETH", "Ethereum", 0.01, 0.0001),
+  binancePair("SOL", "Solana", 0.01, 0.001),
+  binancePair("XRP", "XRP", 0.0001, 0.1),
+  binancePair("ADA", "Cardano", 0.0001, 0.1),
+  binancePair("DOGE", "Dogecoin", 0.00001, 1),
+  binancePair("MATIC", "Polygon", 0.0001, 0.1),
+  binancePair("AVAX", "Avalanche", 0.01, 0.01),
+  binancePair("DOT", "Polkadot", 0.001, 0.01),
+  binancePair("LTC", "Litecoin", 0.01, 0.001),
+
+  // 🥇 Commodities
+  {
+    id: "OANDA:XAUUSD",
+    ticker: "XAUUSD",
+    name: "Gold Spot / USD",
+    exchange: "OANDA",
+    assetClass: "commodity",
+    currency: "USD",
+    tickSize: 0.01,
+    lotSize: 1,
+    hours: FX_METALS_HOURS,
+    aliases: { finnhub: "OANDA:XAU_USD", yahoo: "GC=F", memory: "OANDA:XAUUSD" },
+  },
+];
+
+// Legacy spellings that still show up in stored trades, localStorage and old links
+const EXTRA_ALIASES: Record<string, string> = {
+  "NASDAQ:TESLA": "NASDAQ:TSLA",
+  "NASDAQ:APPLE": "NASDAQ:AAPL",
+  "NASDAQ:NVIDIA": "NASDAQ:NVDA",
+  "BTC/USD": "BINANCE:BTCUSDT",
+  "ETH/USD": "BINANCE:ETHUSDT",
+  "XAU/USD": "OANDA:XAUUSD",
+  NIFTY: "NSE:NIFTY50",
+};
+
+// ---------- Lookup ----------
+const byKey = new Map<string, Instrument>();
+for (const inst of instruments) {
+  byKey.set(inst.id, inst);
+  byKey.set(inst.ticker, inst);
+  for (const alias of Object.values(inst.aliases)) if (alias) byKey.set(alias.toUpperCase(), inst);
+}
+for (const [alias, id] of Object.entries(EXTRA_ALIASES)) {
+  const inst = byKey.get(id);
+  if (inst) byKey.set(alias, inst);
+}
+
+/**
+ * Build an instrument for a symbol that isn't in the registry, using the
+ * exchange conventions we already know. Returns undefined when the input
+ * gives no hint about where it trades.
+ */
+function inferInstrument(key: string): Instrument | undefined {
+  const nse = /^NSE:([A-Z0-9&-]+)$/.exec(key) ?? /^([A-Z0-9&-]+)\.NS$/.exec(key);
+  if (nse) return nseStock(nse[1], nse[1]);
+
+  const crypto = /^(?:BINANCE:)?([A-Z0-9]+)USDT$/.exec(key);
+  if (crypto) return binancePair(crypto[1], crypto[1], 0.0001, 0.0001);
+
+  const us = /^(NASDAQ|NYSE):([A-Z.]+)$/.exec(key);
+  if (us) return usStock(us[1] as "NASDAQ" | "NYSE", us[2], us[2]);
+
+  return undefined;
+}
+
+export function getInstrument(symbol: string): Instrument | undefined {
+  if (!symbol) return undefined;
+  const key = symbol.trim().toUpperCase();
+  return byKey.get(key) ?? inferInstrument(key);
+}
+
+/** Symbol to send to `provider`, or null when that provider doesn't carry the instrument. */
+export function providerSymbol(symbol: string, provider: ProviderId): string | null {
+  const inst = getInstrument(symbol);
+  if (!inst) return symbol.toUpperCase();
+  return inst.aliases[provider] ?? null;
+}
+
+/** Canonical id ("NSE:RELIANCE") for any known spelling; unknown input is returned upper-cased. */
+export function canonicalSymbol(symbol: string): string {
+  return getInstrument(symbol)?.id ?? symbol.trim().toUpperCase();
+}
+
+/** UI symbol without exchange prefix or provider suffix ("RELIANCE", "BTCUSDT"). */
+export function displaySymbol(symbol: string): string {
+  const inst = getInstrument(symbol);
+  if (inst) return inst.ticker;
+  return symbol.replace(/^[A-Z]+:/i, "").replace(/\.(NS|BO)$/i, "");
+}
+
+export function assetClassOf(symbol: string): AssetClass {
+  return getInstrument(symbol)?.assetClass ?? "stock";
+}
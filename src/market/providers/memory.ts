@@ -0,0 +1,41 @@
+// src/market/providers/memory.ts
+import { canonicalSymbol } from "../instruments";
+import type { Candle, CandleRequest, MarketDataProvider, Quote } from "../types";
+
+export interface MemoryProvider extends MarketDataProvider {
+  setQuote(symbol: string, quote: Omit<Quote, "symbol" | "source" | "stale" | "fetchedAt" | "quality" | "issues">): void;
+  setCandles(symbol: string, resolution: CandleRequest["resolution"], candles: Candle[]): void;
+}
+
+/**
+ * In-process provider fed by hand. Useful for development without API keys
+ * and as a deterministic last link in a fallback chain.
+ */
+export function createMemoryProvider(): MemoryProvider {
+  const quotes: Record<string, Omit<Quote, "symbol" | "source" | "stale" | "fetchedAt" | "quality" | "issues">> = {};
+  const candles: Record<string, Candle[]> = {};
+
+  return {
+    id: "memory",
+
+    setQuote(symbol, quote) {
+      quotes[canonicalSymbol(symbol)] = quote;
+    },
+
+    setCandles(symbol, resolution, list) {
+      candles[`${canonicalSymbol(symbol)}|${resolution}`] = [...list].sort((a, b) => a.time - b.time);
+    },
+
+    async getQuote(symbol: string): Promise<Quote | null> {
+      const q = quotes[canonicalSymbol(symbol)];
+      if (!q) return null;
+      return { ...q, symbol, fetchedAt: Date.now(), source: "memory", stale: false, quality: "ok" };
+    },
+
+    async getCandles(symbol: string, req: CandleRequest): Promise<Candle[] | null> {
+      const list = candles[`${canonicalSymbol(symbol)}|${req.resolution}`];
+      if (!list) return null;
+      return list.filter((c) => c.time >= req.from && c.time <= req.to);
+    },
+  };
+}
@@ -0,0 +1,50 @@
+// src/market/providers/recording.ts
+// Pass-through wrapper that saves every successful response into fixture files
+// for the replay provider. Enable with MARKET_DATA_MODE=record.
+import { mergeCandles } from "../candleStore";
+import { FIXTURES_DIR, MarketFixture, readFixture, writeFixture } from "../fixtures";
+import { canonicalSymbol } from "../instruments";
+import type { Candle, CandleRequest, MarketDataProvider, Quote } from "../types";
+
+// Serialize writes per fixture file; quotes and candles for one symbol often land together
+const pending: Record<string, Promise<void>> = {};
+
+function update(symbol: string, dir: string, apply: (f: MarketFixture) => void) {
+  const key = `${dir}|${canonicalSymbol(symbol)}`;
+  const prev = pending[key] ?? Promise.resolve();
+  const next = prev
+    .then(async () => {
+      const fixture = (await readFixture(symbol, dir)) ?? { symbol: canonicalSymbol(symbol), quotes: [], candles: {} };
+      apply(fixture);
+      await writeFixture(fixture, dir);
+    })
+    .catch((err) => console.warn("⚠️ fixture write failed:", symbol, err));
+  pending[key] = next;
+  return next;
+}
+
+export function createRecordingProvider(inner: MarketDataProvider, dir = FIXTURES_DIR): MarketDataProvider {
+  return {
+    id: inner.id,
+
+    async getQuote(symbol: string): Promise<Quote | null> {
+      const quote = await inner.getQuote(symbol);
+      if (quote) {
+        update(symbol, dir, (f) => {
+          f.quotes.push({ ...quote, symbol: canonicalSymbol(symbol) });
+        });
+      }
+      return quote;
+    },
+
+    async getCandles(symbol: string, req: CandleRequest): Promise<Candle[] | null> {
+      const candles = await inner.getCandles(symbol, req);
+      if (candles && candles.length) {
+        update(symbol, dir, (f) => {
+          f.candles[req.resolution] = mergeCandles(f.candles[req.resolution] ?? [], candles);
+        });
+      }
+      return candles;
+    },
+  };
+}
@@ -0,0 +1,47 @@
+// src/market/providers/replay.ts
+// Serves recorded fixtures back deterministically. With a virtual clock, only data
+// that existed at clock.now() is visible, so a reported signal can be reproduced
+// exactly as it was generated. That means closed bars only: a fixture holds each
+// bar's final OHLC, which the bar still forming at clock.now() did not have yet.
+import { systemClock, Clock } from "../clock";
+import { FIXTURES_DIR, MarketFixture, readFixture } from "../fixtures";
+import { canonicalSymbol } from "../instruments";
+import { RESOLUTION_MS } from "../resolution";
+import type { Candle, CandleRequest, MarketDataProvider, Quote } from "../types";
+
+export function createReplayProvider(dir = FIXTURES_DIR, clock: Clock = systemClock): MarketDataProvider {
+  const loaded: Record<string, MarketFixture | null> = {};
+
+  async function fixtureFor(symbol: string) {
+    const key = canonicalSymbol(symbol);
+    if (!(key in loaded)) loaded[key] = await readFixture(key, dir);
+    return loaded[key];
+  }
+
+  // With the system clock every recorded item is "in the past", i.e. the latest recording wins
+  const visibleAt = () => (clock === systemClock ? Number.MAX_SAFE_INTEGER : clock.now());
+
+  return {
+    id: "replay",
+
+    async getQuote(symbol: string): Promise<Quote | null> {
+      const fixture = await fixtureFor(symbol);
+      if (!fixture?.quotes.length) return null;
+      const now = visibleAt();
+
+      let match: Quote | null = null;
+      for (const q of fixture.quotes) {
+        if (q.fetchedAt <= now && (!match || q.fetchedAt >= match.fetchedAt)) match = q;
+      }
+      return match ? { ...match, symbol } : null;
+    },
+
+    async getCandles(symbol: string, req: CandleRequest): Promise<Candle[] | null> {
+      const fixture = await fixtureFor(symbol);
+      const list = fixture?.candles[req.resolution];
+      if (!list?.length) return null;
+      const closedBy = visibleAt() - RESOLUTION_MS[req.resolution];
+      return list.filter((c) => c.time >= req.from && c.time <= req.to && c.time <= closedBy);
+    },
+  };
+}
@@ -0,0 +1,75 @@
+// src/market/providers/yahoo.ts
+import { fetchJson } from "../http";
+import { providerSymbol } from "../instruments";
+import { getRateLimiter } from "../rateLimiter";
+import type { Candle, CandleRequest, MarketDataProvider, Quote, Resolution } from "../types";
+
+const BASE_URL = "https://query1.finance.yahoo.com/v8/finance/chart";
+
+const INTERVALS: Record<Resolution, string> = {
+  "1m": "1m",
+  "5m": "5m",
+  "15m": "15m",
+  "1h": "60m",
+  "1D": "1d",
+  "1W": "1wk",
+};
+
+export function createYahooProvider(): MarketDataProvider {
+  return {
+    id: "yahoo",
+
+    async getQuote(symbol: string): Promise<Quote | null> {
+      const mapped = providerSymbol(symbol, "yahoo");
+      if (!mapped) return null;
+      if (!(await getRateLimiter().acquire("yahoo", "quote"))) return null;
+      const json = await fetchJson(`${BASE_URL}/${encodeURIComponent(mapped)}`);
+      const meta = json?.chart?.result?.[0]?.meta;
+      if (!meta || typeof meta.regularMarketPrice !== "number") return null;
+
+      const now = Date.now();
+      return {
+        symbol,
+        price: meta.regularMarketPrice,
+        open: meta.regularMarketOpen ?? null,
+        high: meta.regularMarketDayHigh ?? null,
+        low: meta.regularMarketDayLow ?? null,
+        previousClose: meta.chartPreviousClose ?? meta.previousClose ?? null,
+        timestamp: meta.regularMarketTime ? meta.regularMarketTime * 1000 : now,
+        fetchedAt: now,
+        source: "yahoo",
+        stale: false,
+        quality: "ok",
+      };
+    },
+
+    async getCandles(symbol: string, req: CandleRequest): Promise<Candle[] | null> {
+      const mapped = providerSymbol(symbol, "yahoo");
+      if (!mapped) return null;
+      if (!(await getRateLimiter().acquire("yahoo", "history"))) return null;
+      const url =
+        `${BASE_URL}/${encodeURIComponent(mapped)}` +
+        `?interval=${INTERVALS[req.resolution]}&period1=${Math.floor(req.from / 1000)}&period2=${Math.floor(req.to / 1000)}`;
+      const json = await fetchJson(url, 20000);
+      const result = json?.chart?.result?.[0];
+      const times: number[] | undefined = result?.timestamp;
+      const q = result?.indicators?.quote?.[0];
+      if (!Array.isArray(times) || !q) return null;
+
+      const candles: Candle[] = [];
+      for (let i = 0; i < times.length; i++) {
+        // Yahoo pads halted/illiquid intervals with nulls
+        if (q.open?.[i] == null || q.high?.[i] == null || q.low?.[i] == null || q.close?.[i] == null) continue;
+        candles.push({
+          time: times[i] * 1000,
+          open: q.open[i],
+          high: q.high[i],
+          low: q.low[i],
+          close: q.close[i],
+          volume: q.volume?.[i] ?? 0,
+        });
+      }
+      return candles;
+    },
+  };
+}
@@ -0,0 +1,212 @@
+// src/market/rateLimiter.ts
+// One token bucket per provider, shared by every route in the process, so bursts
+// from several users can't push us past the API key's limits.
+//
+// - per-minute limit: bucket of `perMinute` tokens refilled continuously
+// - per-day limit: hard cap, resets at 00:00 UTC
+// - priority: queued quote requests are served before history requests, until a
+//   history request has waited PROMOTE_AFTER_MS; then it goes first, so a steady
+//   stream of quotes can't starve history into timing out
+import type { ProviderId } from "./types";
+
+export type RequestPriority = "quote" | "history";
+
+export interface RateLimit {
+  perMinute: number;
+  perDay: number;
+}
+
+export interface QuotaStats {
+  provider: ProviderId;
+  perMinute: number;
+  /** null when the provider has no daily cap. */
+  perDay: number | null;
+  availableNow: number;
+  usedToday: number;
+  remainingToday: number | null;
+  queued: Record<RequestPriority, number>;
+}
+
+interface Waiter {
+  priority: RequestPriority;
+  queuedAt: number;
+  deadline: number;
+  resolve: (granted: boolean) => void;
+}
+
+interface Bucket {
+  limit: RateLimit;
+  tokens: number;
+  lastRefill: number;
+  day: string;
+  usedToday: number;
+  queue: Waiter[];
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+const PRIORITY_ORDER: RequestPriority[] = ["quote", "history"];
+const DEFAULT_MAX_WAIT_MS = 30_000;
+// well inside the default wait, so a promoted request still has time to be served
+const PROMOTE_AFTER_MS = 10_000;
+
+// Finnhub free tier is 60 calls/minute; Yahoo is unofficial, so stay polite
+const DEFAULT_LIMITS: Partial<Record<ProviderId, RateLimit>> = {
+  finnhub: { perMinute: 60, perDay: Infinity },
+  yahoo: { perMinute: 100, perDay: 20_000 },
+};
+
+function utcDay(now: number) {
+  return new Date(now).toISOString().slice(0, 10);
+}
+
+export interface RateLimiter {
+  /**
+   * Wait for a request slot. Resolves false (never rejects) when the daily quota
+   * is used up or no slot frees up within `maxWaitMs`, so callers can fall through
+   * to the next provider.
+   */
+  acquire(provider: ProviderId, priority: RequestPriority, maxWaitMs?: number): Promise<boolean>;
+  stats(): QuotaStats[];
+}
+
+export function createRateLimiter(limits: Partial<Record<ProviderId, RateLimit>>): RateLimiter {
+  const buckets: Partial<Record<ProviderId, Bucket>> = {};
+
+  function bucketFor(provider: ProviderId): Bucket | null {
+    const limit = limits[provider];
+    if (!limit) return null;
+    if (!buckets[provider]) {
+      const now = Date.now();
+      buckets[provider] = {
+        limit,
+        tokens: limit.perMinute,
+        lastRefill: now,
+        day: utcDay(now),
+        usedToday: 0,
+        queue: [],
+        timer: null,
+      };
+    }
+    return buckets[provider]!;
+  }
+
+  function refill(b: Bucket, now: number) {
+    const elapsed = now - b.lastRefill;
+    b.tokens = Math.min(b.limit.perMinute, b.tokens + (elapsed / 60_000) * b.limit.perMinute);
+    b.lastRefill = now;
+    const day = utcDay(now);
+    if (day !== b.day) {
+      b.day = day;
+      b.usedToday = 0;
+    }
+  }
+
+  function take(b: Bucket) {
+    b.tokens -= 1;
+    b.usedToday += 1;
+  }
+
+  function nextWaiter(b: Bucket, now: number): Waiter | undefined {
+    // queue is in arrival order, so the first overdue waiter is the one waiting longest
+    const overdue = b.queue.findIndex((w) => now - w.queuedAt >= PROMOTE_AFTER_MS);
+    if (overdue >= 0) return b.queue.splice(overdue, 1)[0];
+    for (const p of PRIORITY_ORDER) {
+      const idx = b.queue.findIndex((w) => w.priority === p);
+      if (idx >= 0) return b.queue.splice(idx, 1)[0];
+    }
+    return undefined;
+  }
+
+  function drain(b: Bucket) {
+    b.timer = null;
+    const now = Date.now();
+    refill(b, now);
+
+    // drop waiters that gave up
+    b.queue = b.queue.filter((w) => {
+      if (w.deadline > now) return true;
+      w.resolve(false);
+      return false;
+    });
+
+    while (b.queue.length && b.tokens >= 1) {
+      if (b.usedToday >= b.limit.perDay) {
+        for (const w of b.queue) w.resolve(false);
+        b.queue = [];
+        return;
+      }
+      take(b);
+      nextWaiter(b, now)!.resolve(true);
+    }
+
+    if (b.queue.length) {
+      const untilToken = ((1 - b.tokens) / b.limit.perMinute) * 60_000;
+      const untilDeadline = Math.min(...b.queue.map((w) => w.deadline)) - now;
+      b.timer = setTimeout(() => drain(b), Math.max(10, Math.min(untilToken, untilDeadline)));
+    }
+  }
+
+  async function acquire(provider: ProviderId, priority: RequestPriority, maxWaitMs = DEFAULT_MAX_WAIT_MS) {
+    const b = bucketFor(provider);
+    if (!b) return true;
+
+    const now = Date.now();
+    refill(b, now);
+    if (b.usedToday >= b.limit.perDay) return false;
+
+    if (!b.queue.length && b.tokens >= 1) {
+      take(b);
+      return true;
+    }
+
+    return new Promise<boolean>((resolve) => {
+      b.queue.push({ priority, queuedAt: now, deadline: now + maxWaitMs, resolve });
+      if (!b.timer) drain(b);
+    });
+  }
+
+  function stats(): QuotaStats[] {
+    const now = Date.now();
+    return (Object.keys(limits) as ProviderId[]).map((provider) => {
+      const b = bucketFor(provider)!;
+      refill(b, now);
+      return {
+        provider,
+        perMinute: b.limit.perMinute,
+        perDay: Number.isFinite(b.limit.perDay) ? b.limit.perDay : null,
+        availableNow: Math.floor(b.tokens),
+        usedToday: b.usedToday,
+        remainingToday: Number.isFinite(b.limit.perDay) ? Math.max(0, b.limit.perDay - b.usedToday) : null,
+        queued: {
+          quote: b.queue.filter((w) => w.priority === "quote").length,
+          history: b.queue.filter((w) => w.priority === "history").length,
+        },
+      };
+    });
+  }
+
+  return { acquire, stats };
+}
+
+// Limits can be overridden per provider, e.g. RATE_LIMIT_FINNHUB_PER_MINUTE=30, RATE_LIMIT_YAHOO_PER_DAY=5000
+function configuredLimits(): Partial<Record<ProviderId, RateLimit>> {
+  const out: Partial<Record<ProviderId, RateLimit>> = {};
+  for (const [provider, def] of Object.entries(DEFAULT_LIMITS) as [ProviderId, RateLimit][]) {
+    const prefix = `RATE_LIMIT_${provider.toUpperCase()}`;
+    const perMinute = Number(process.env[`${prefix}_PER_MINUTE`] ?? def.perMinute);
+    const perDay = Number(process.env[`${prefix}_PER_DAY`] ?? def.perDay);
+    out[provider] = {
+      perMinute: perMinute > 0 ? perMinute : def.perMinute,
+      perDay: perDay > 0 ? perDay : def.perDay,
+    };
+  }
+  return out;
+}
+
+// One limiter per server process, shared across route modules and hot reloads
+const globalForLimiter = globalThis as unknown as { __rateLimiter?: RateLimiter };
+
+export function getRateLimiter(): RateLimiter {
+  if (!globalForLimiter.__rateLimiter) globalForLimiter.__rateLimiter = createRateLimiter(configuredLimits());
+  return globalForLimiter.__rateLimiter;
+}
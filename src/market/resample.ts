@@ -0,0 +1,88 @@
+// src/market/resample.ts
+// Build higher timeframes from a finer base series without another provider call.
+// Intraday buckets are anchored to the exchange session open (NSE 09:15 IST, so the
+// first 1h bar is 09:15–10:15 and the last one is cut at 15:30), not to the clock hour.
+import { ALWAYS_OPEN_HOURS, getInstrument, TradingHours } from "./instruments";
+import { TIMEFRAME_MS } from "./resolution";
+import { isoDate, sessionAt, wallClock } from "./sessions";
+import type { Candle, Timeframe } from "./types";
+
+const DAY = 24 * 60 * 60_000;
+
+export function canResample(base: Timeframe, target: Timeframe): boolean {
+  const b = TIMEFRAME_MS[base];
+  const t = TIMEFRAME_MS[target];
+  if (t < b) return false;
+  // intraday targets must be whole multiples of the base; daily/weekly group by session instead
+  return t >= DAY || t % b === 0;
+}
+
+/** Monday ("YYYY-MM-DD") of the exchange-local week containing `time`. */
+function weekKey(time: number, timezone: string) {
+  const wall = Math.floor(wallClock(time, timezone) / DAY) * DAY;
+  const weekday = (new Date(wall).getUTCDay() + 6) % 7;
+  return isoDate(wall - weekday * DAY);
+}
+
+export function resample(
+  candles: Candle[],
+  base: Timeframe,
+  target: Timeframe,
+  hours: TradingHours = ALWAYS_OPEN_HOURS
+): Candle[] {
+  if (base === target) return candles;
+  if (!canResample(base, target)) {
+    throw new Error(`Cannot build ${target} bars from ${base}`);
+  }
+
+  const targetMs = TIMEFRAME_MS[target];
+  // Daily and weekly provider bars are often stamped at midnight UTC, outside any
+  // session, so only intraday bases are checked against trading hours.
+  const intradayBase = TIMEFRAME_MS[base] < DAY;
+
+  const out: Candle[] = [];
+  let current: Candle | null = null;
+  let currentKey: string | number | null = null;
+
+  const sorted = [...candles].sort((a, b) => a.time - b.time);
+  for (const c of sorted) {
+    let key: string | number;
+    let bucketTime: number;
+
+    if (intradayBase) {
+      const session = sessionAt(c.time, hours);
+      if (!session) continue; // pre/post-market prints and weekend noise
+      if (targetMs < DAY) {
+        key = session.start + Math.floor((c.time - session.start) / targetMs) * targetMs;
+        bucketTime = key;
+      } else if (target === "1D") {
+        key = session.start;
+        bucketTime = session.start;
+      } else {
+        key = session.week;
+        bucketTime = session.start;
+      }
+    } else {
+      key = weekKey(c.time, hours.timezone);
+      bucketTime = c.time;
+    }
+
+    if (current && key === currentKey) {
+      current.high = Math.max(current.high, c.high);
+      current.low = Math.min(current.low, c.low);
+      current.close = c.close;
+      current.volume += c.volume;
+    } else {
+      if (current) out.push(current);
+      current = { time: bucketTime, open: c.open, high: c.high, low: c.low, close: c.close, volume: c.volume };
+      currentKey = key;
+    }
+  }
+  if (current) out.push(current);
+  return out;
+}
+
+/** resample() using the symbol's trading hours from the instrument master. */
+export function resampleFor(symbol: string, candles: Candle[], base: Timeframe, target: Timeframe): Candle[] {
+  return resample(candles, base, target, getInstrument(symbol)?.hours ?? ALWAYS_OPEN_HOURS);
+}
@@ -0,0 +1,50 @@
+// src/market/resolution.ts
+import type { Resolution, Timeframe } from "./types";
+
+export const RESOLUTIONS: Resolution[] = ["1m", "5m", "15m", "1h", "1D", "1W"];
+
+const MINUTE = 60_000;
+const DAY = 24 * 60 * MINUTE;
+
+/** Nominal bar length. Daily/weekly bars are calendar lengths, not session lengths. */
+export const RESOLUTION_MS: Record<Resolution, number> = {
+  "1m": MINUTE,
+  "5m": 5 * MINUTE,
+  "15m": 15 * MINUTE,
+  "1h": 60 * MINUTE,
+  "1D": DAY,
+  "1W": 7 * DAY,
+};
+
+/** Range used when a caller asks for candles without a `from`. */
+export const DEFAULT_LOOKBACK_MS: Record<Resolution, number> = {
+  "1m": DAY,
+  "5m": 5 * DAY,
+  "15m": 10 * DAY,
+  "1h": 30 * DAY,
+  "1D": 300 * DAY,
+  "1W": 5 * 365 * DAY,
+};
+
+export const TIMEFRAMES: Timeframe[] = ["1m", "5m", "15m", "1h", "4h", "1D", "1W"];
+
+export const TIMEFRAME_MS: Record<Timeframe, number> = { ...RESOLUTION_MS, "4h": 4 * 60 * MINUTE };
+
+/** Provider resolution a timeframe is built from when none is requested explicitly. */
+export const DEFAULT_BASE: Record<Timeframe, Resolution> = {
+  "1m": "1m",
+  "5m": "5m",
+  "15m": "15m",
+  "1h": "1h",
+  "4h": "1h",
+  "1D": "1D",
+  "1W": "1W",
+};
+
+export function isTimeframe(value: unknown): value is Timeframe {
+  return typeof value === "string" && (TIMEFRAMES as string[]).includes(value);
+}
+
+export function isResolution(value: unknown): value is Resolution {
+  return typeof value === "string" && (RESOLUTIONS as string[]).includes(value);
+}
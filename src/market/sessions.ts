@@ -0,0 +1,102 @@
+// src/market/sessions.ts
+// Exchange-local time helpers. Uses Intl so no timezone library is needed.
+import type { TradingHours } from "./instruments";
+
+const MINUTE = 60_000;
+const DAY = 24 * 60 * MINUTE;
+
+const formatters: Record<string, Intl.DateTimeFormat> = {};
+
+function formatterFor(timezone: string) {
+  if (!formatters[timezone]) {
+    formatters[timezone] = new Intl.DateTimeFormat("en-US", {
+      timeZone: timezone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+  }
+  return formatters[timezone];
+}
+
+/** Wall-clock time in `timezone`, expressed as if it were a UTC epoch (ms). */
+export function wallClock(time: number, timezone: string): number {
+  const parts: Record<string, number> = {};
+  for (const p of formatterFor(timezone).formatToParts(new Date(time))) {
+    if (p.type !== "literal") parts[p.type] = Number(p.value);
+  }
+  return Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+}
+
+export function parseHHMM(value: string): number {
+  const [h, m] = value.split(":").map(Number);
+  return h * 60 + (m || 0);
+}
+
+/** "YYYY-MM-DD" for a wall-clock epoch produced by wallClock(). */
+export function isoDate(wall: number): string {
+  return new Date(wall).toISOString().slice(0, 10);
+}
+
+export interface SessionInfo {
+  /** UTC epoch (ms) at which the containing session opened. */
+  start: number;
+  /** UTC epoch (ms) at which it closes. */
+  end: number;
+  /** Trading date in exchange time ("YYYY-MM-DD"); overnight sessions take the date they close on. */
+  date: string;
+  /** Monday of the trading date's week, used to bucket weekly bars. */
+  week: string;
+}
+
+/**
+ * Session containing `time`, or null when the market is closed at that instant.
+ * Closing times earlier than the opening time describe sessions that run past midnight.
+ */
+export function sessionAt(time: number, hours: TradingHours): SessionInfo | null {
+  const wall = wallClock(time, hours.timezone);
+  const offset = wall - time;
+  const midnight = Math.floor(wall / DAY) * DAY;
+  const minutes = (wall - midnight) / MINUTE;
+  const open = parseHHMM(hours.open);
+  const close = parseHHMM(hours.close);
+
+  let openWall: number;
+  let closeWall: number;
+
+  if (close > open) {
+    if (minutes < open || minutes >= close) return null;
+    openWall = midnight + open * MINUTE;
+    closeWall = midnight + close * MINUTE;
+  } else if (minutes >= open) {
+    openWall = midnight + open * MINUTE;
+    closeWall = midnight + DAY + close * MINUTE;
+  } else if (minutes < close) {
+    openWall = midnight - DAY + open * MINUTE;
+    closeWall = midnight + close * MINUTE;
+  } else {
+    return null;
+  }
+
+  // Sessions are listed by the weekday they open on
+  if (!hours.days.includes(new Date(openWall).getUTCDay())) return null;
+
+  // minus a minute so a "24:00" close stays on the same date
+  const dateWall = Math.floor((closeWall - MINUTE) / DAY) * DAY;
+  const weekday = (new Date(dateWall).getUTCDay() + 6) % 7; // Monday = 0
+  return {
+    start: openWall - offset,
+    end: closeWall - offset,
+    date: isoDate(dateWall),
+    week: isoDate(dateWall - weekday * DAY),
+  };
+}
+
+/** Trading-date key per bar, so session VWAP restarts each day; bars outside a session go by local date. */
+export function sessionKeys(times: number[], hours: TradingHours): string[] {
+  return times.map((t) => sessionAt(t, hours)?.date ?? isoDate(wallClock(t, hours.timezone)));
+}
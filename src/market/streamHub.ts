@@ -0,0 +1,91 @@
+// src/market/streamHub.ts
+// Fans out ticks from one upstream QuoteFeed to every connected client.
+// Upstream subscriptions are reference-counted per symbol.
+import { getMarketData } from ".";
+import { createPollingFeed } from "./feeds/polling";
+import { createSimulatedFeed } from "./feeds/simulated";
+import type { FeedId, QuoteFeed } from "./feeds/types";
+import { canonicalSymbol } from "./instruments";
+import type { Quote } from "./types";
+
+type Listener = (quote: Quote) => void;
+
+export interface StreamHub {
+  readonly feed: QuoteFeed;
+  /** Listen to `symbols`; the last known quote for each is replayed immediately. Returns an unsubscribe function. */
+  subscribe(symbols: string[], listener: Listener): () => void;
+  snapshot(symbols: string[]): Record<string, Quote>;
+}
+
+export function createStreamHub(feed: QuoteFeed): StreamHub {
+  const listeners = new Map<string, Set<Listener>>();
+  const last = new Map<string, Quote>();
+
+  feed.onQuote((quote) => {
+    const key = canonicalSymbol(quote.symbol);
+    last.set(key, quote);
+    for (const fn of listeners.get(key) ?? []) {
+      try {
+        fn(quote);
+      } catch (err) {
+        console.warn("⚠️ stream listener error:", err);
+      }
+    }
+  });
+
+  function subscribe(symbols: string[], listener: Listener) {
+    const keys = Array.from(new Set(symbols.map(canonicalSymbol)));
+    for (const key of keys) {
+      let set = listeners.get(key);
+      if (!set) {
+        set = new Set();
+        listeners.set(key, set);
+        feed.subscribe(key);
+      }
+      set.add(listener);
+      const known = last.get(key);
+      if (known) listener(known);
+    }
+
+    return () => {
+      for (const key of keys) {
+        const set = listeners.get(key);
+        if (!set) continue;
+        set.delete(listener);
+        if (!set.size) {
+          listeners.delete(key);
+          last.delete(key);
+          feed.unsubscribe(key);
+        }
+      }
+    };
+  }
+
+  function snapshot(symbols: string[]) {
+    const out: Record<string, Quote> = {};
+    for (const s of symbols) {
+      const q = last.get(canonicalSymbol(s));
+      if (q) out[s] = q;
+    }
+    return out;
+  }
+
+  return { feed, subscribe, snapshot };
+}
+
+// Feed is chosen by QUOTE_FEED ("polling" | "simulated"); polling is the default
+function buildFeed(id: FeedId): QuoteFeed {
+  if (id === "simulated") return createSimulatedFeed(getMarketData());
+  return createPollingFeed(getMarketData(), Number(process.env.QUOTE_FEED_POLL_MS ?? 5_000));
+}
+
+// Survive dev hot reloads: one hub per server process
+const globalForHub = globalThis as unknown as { __streamHub?: StreamHub };
+
+export function getStreamHub(): StreamHub {
+  if (!globalForHub.__streamHub) {
+    const id: FeedId = process.env.QUOTE_FEED === "simulated" ? "simulated" : "polling";
+    globalForHub.__streamHub = createStreamHub(buildFeed(id));
+  }
+  return globalForHub.__streamHub;
+}
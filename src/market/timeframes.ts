@@ -0,0 +1,47 @@
+// src/market/timeframes.ts
+// One base-series read, many timeframes: lets signal code ask for 15m/1h/4h/1D
+// views of a symbol without extra provider calls. Bars are split/bonus adjusted,
+// which is what signal code should see.
+import { getMarketClock } from ".";
+import { adjustFor } from "./adjust";
+import { syncCandles } from "./candleStore";
+import { resampleFor } from "./resample";
+import { DEFAULT_BASE, DEFAULT_LOOKBACK_MS } from "./resolution";
+import type { Candle, Resolution, Timeframe } from "./types";
+
+export async function loadTimeframes(
+  symbol: string,
+  base: Resolution,
+  targets: Timeframe[],
+  from: number,
+  to: number = getMarketClock().now()
+): Promise<Partial<Record<Timeframe, Candle[]>>> {
+  const raw = await syncCandles(symbol, base, from, to);
+  const candles = await adjustFor(symbol, raw.candles, "splits");
+  const out: Partial<Record<Timeframe, Candle[]>> = {};
+  for (const tf of targets) {
+    try {
+      out[tf] = resampleFor(symbol, candles, base, tf);
+    } catch (err) {
+      console.warn(`⚠️ cannot resample ${symbol} ${base} -> ${tf}:`, err);
+    }
+  }
+  return out;
+}
+
+/**
+ * Each target from its default base over that base's default lookback, one read per
+ * base. What signal code uses when it needs a few extra series and no specific range.
+ */
+export async function loadDefaultTimeframes(
+  symbol: string,
+  targets: Timeframe[],
+  to: number = getMarketClock().now()
+): Promise<Partial<Record<Timeframe, Candle[]>>> {
+  const byBase = new Map<Resolution, Timeframe[]>();
+  for (const tf of targets) byBase.set(DEFAULT_BASE[tf], [...(byBase.get(DEFAULT_BASE[tf]) ?? []), tf]);
+  const parts = await Promise.all(
+    [...byBase].map(([base, tfs]) => loadTimeframes(symbol, base, tfs, to - DEFAULT_LOOKBACK_MS[base], to))
+  );
+  return Object.assign({}, ...parts);
+}
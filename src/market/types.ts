@@ -0,0 +1,73 @@
+// src/market/types.ts
+// Normalized market-data shapes shared by every provider, route and page.
+
+export type ProviderId = "finnhub" | "yahoo" | "memory" | "replay";
+
+/** Where a quote came from: a provider, or the development tick simulator. */
+export type QuoteSource = ProviderId | "simulated";
+
+/**
+ * Set by the chain's validation stage (see validation.ts):
+ * - "ok": usable for signals and trade hits
+ * - "stale": last trade is too old for the market's current session
+ * - "suspect": move from the previous close is beyond the sanity threshold
+ * - "invalid": zero, negative or NaN price; never returned by the chain
+ */
+export type QuoteQuality = "ok" | "stale" | "suspect" | "invalid";
+
+/** Bar sizes providers can serve directly. */
+export type Resolution = "1m" | "5m" | "15m" | "1h" | "1D" | "1W";
+
+/** Bar sizes we can build locally by resampling a finer Resolution. */
+export type Timeframe = Resolution | "4h";
+
+export interface Quote {
+  symbol: string;
+  price: number;
+  open: number | null;
+  high: number | null;
+  low: number | null;
+  previousClose: number | null;
+
+  /** Exchange time of the last trade (ms epoch) as reported by the provider. */
+  timestamp: number;
+  /** When we received it (ms epoch). */
+  fetchedAt: number;
+
+  source: QuoteSource;
+  /** True when the quote is older than the chain's staleness window or was served from the last-good cache. */
+  stale: boolean;
+  quality: QuoteQuality;
+  /** Why quality isn't "ok". */
+  issues?: string[];
+}
+
+export interface Candle {
+  /** Bar open time (ms epoch). */
+  time: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+export interface CandleRequest {
+  resolution: Resolution;
+  /** Inclusive range in ms epoch. */
+  from: number;
+  to: number;
+}
+
+export interface CandleSeries {
+  symbol: string;
+  resolution: Resolution;
+  candles: Candle[];
+  source: ProviderId;
+}
+
+export interface MarketDataProvider {
+  readonly id: ProviderId;
+  getQuote(symbol: string): Promise<Quote | null>;
+  getCandles(symbol: string, req: CandleRequest): Promise<Candle[] | null>;
+}
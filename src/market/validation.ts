@@ -0,0 +1,124 @@
+// src/market/validation.ts
+// Sanity checks between providers and everything downstream. Quotes are graded
+// rather than dropped so the UI can still show them, while signal generation and
+// hit detection only act on "ok" data. Pure functions, safe to import client-side.
+import { isMarketOpen } from "./calendar";
+import { ALWAYS_OPEN_HOURS, AssetClass, getInstrument, TradingHours } from "./instruments";
+import { RESOLUTION_MS } from "./resolution";
+import { sessionAt } from "./sessions";
+import type { Candle, Quote, QuoteQuality, Resolution } from "./types";
+
+const DAY = 24 * 60 * 60_000;
+
+// Largest believable move from the previous close. NSE stocks are capped by 20%
+// circuit bands; indices and gold rarely move half that in a day.
+export const MAX_MOVE_PCT: Record<AssetClass, number> = {
+  index: 10,
+  stock: 20,
+  crypto: 30,
+  commodity: 10,
+};
+
+// While the market is closed the last print is legitimately old; only flag it
+// once it is older than a long weekend plus a holiday.
+const CLOSED_MARKET_STALE_MS = 4 * DAY;
+
+export interface QuoteCheckOptions {
+  now: number;
+  staleAfterMs: number;
+  /** Recent good price to compare against when the quote has no previous close. */
+  reference?: number | null;
+}
+
+const isPositive = (n: number | null | undefined) => typeof n === "number" && Number.isFinite(n) && n > 0;
+
+/** Grade a quote; the returned copy has `quality`, `issues` and `stale` filled in. */
+export function validateQuote(quote: Quote, { now, staleAfterMs, reference }: QuoteCheckOptions): Quote {
+  const inst = getInstrument(quote.symbol);
+  const issues: string[] = [];
+  let quality: QuoteQuality = "ok";
+
+  if (!isPositive(quote.price)) {
+    issues.push(`price ${quote.price} is not a positive number`);
+    quality = "invalid";
+  } else {
+    const base = isPositive(quote.previousClose) ? quote.previousClose! : isPositive(reference) ? reference! : null;
+    const maxMove = MAX_MOVE_PCT[inst?.assetClass ?? "stock"];
+    if (base && Math.abs(quote.price / base - 1) * 100 > maxMove) {
+      issues.push(`price moved ${((quote.price / base - 1) * 100).toFixed(1)}% from ${base}, beyond ${maxMove}%`);
+      quality = "suspect";
+    }
+
+    const age = now - quote.timestamp;
+    const open = isMarketOpen(quote.symbol, now);
+    if (!Number.isFinite(quote.timestamp) || age > (open ? staleAfterMs : CLOSED_MARKET_STALE_MS)) {
+      issues.push(`last trade ${Math.round(age / 60_000)} min old`);
+      if (quality === "ok") quality = "stale";
+    }
+  }
+
+  return { ...quote, quality, stale: quote.stale || quality === "stale", issues: issues.length ? issues : undefined };
+}
+
+export interface CandleCheckResult {
+  candles: Candle[];
+  /** Bars removed, by reason. */
+  dropped: { invalid: number; outsideHours: number; spikes: number };
+}
+
+/**
+ * Drop bars that can't be right: non-positive or inconsistent OHLC, intraday bars
+ * printed outside the session, and single-bar spikes that fully revert on the next bar.
+ */
+export function validateCandles(
+  candles: Candle[],
+  resolution: Resolution,
+  hours: TradingHours = ALWAYS_OPEN_HOURS,
+  maxMovePct = MAX_MOVE_PCT.stock
+): CandleCheckResult {
+  const dropped = { invalid: 0, outsideHours: 0, spikes: 0 };
+  const intraday = RESOLUTION_MS[resolution] < DAY;
+
+  const sane = candles.filter((c) => {
+    const ok =
+      [c.open, c.high, c.low, c.close].every(isPositive) &&
+      Number.isFinite(c.volume) &&
+      c.volume >= 0 &&
+      c.high >= Math.max(c.open, c.close, c.low) &&
+      c.low <= Math.min(c.open, c.close);
+    if (!ok) dropped.invalid++;
+    else if (intraday && !sessionAt(c.time, hours)) {
+      dropped.outsideHours++;
+      return false;
+    }
+    return ok;
+  });
+
+  const limit = maxMovePct / 100;
+  const out = sane.filter((c, i) => {
+    const prev = sane[i - 1];
+    const next = sane[i + 1];
+    if (!prev || !next) return true;
+    const jump = Math.max(c.high / prev.close - 1, 1 - c.low / prev.close);
+    // a real breakout rarely gives nearly all of it back on the very next bar
+    const reverted = Math.abs(next.close / prev.close - 1) <= limit / 4;
+    if (jump > limit && reverted) {
+      dropped.spikes++;
+      return false;
+    }
+    return true;
+  });
+
+  return { candles: out, dropped };
+}
+
+/** validateCandles() with the symbol's trading hours and move threshold. */
+export function validateCandlesFor(symbol: string, candles: Candle[], resolution: Resolution): CandleCheckResult {
+  const inst = getInstrument(symbol);
+  return validateCandles(candles, resolution, inst?.hours, MAX_MOVE_PCT[inst?.assetClass ?? "stock"]);
+}
+
+/** True when a quote can drive signals and trade hits. */
+export function isUsableQuote(quote: Pick<Quote, "quality"> | null | undefined): boolean {
+  return quote?.quality === "ok";
+}
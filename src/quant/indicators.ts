@@ -0,0 +1,409 @@
+// src/quant/indicators.ts
+// Indicator library. Every function returns a series aligned index-for-index with
+// its input; bars inside the warm-up window are null instead of a guessed value,
+// so callers can tell "not enough history" apart from a real reading.
+
+export type Series = (number | null)[];
+
+/** Bars needed before the first non-null value. */
+export const warmup = {
+  sma: (period: number) => period,
+  ema: (period: number) => period,
+  rsi: (period: number) => period + 1,
+};
+
+/** Last value of a series, or null when empty or still warming up. */
+export function last(series: Series): number | null {
+  return series.length ? series[series.length - 1] : null;
+}
+
+export function sma(values: number[], period: number): Series {
+  const out: Series = new Array(values.length).fill(null);
+  if (period <= 0) return out;
+  let sum = 0;
+  for (let i = 0; i < values.length; i++) {
+    sum += values[i];
+    if (i >= period) sum -= values[i - period];
+    if (i >= period - 1) out[i] = sum / period;
+  }
+  return out;
+}
+
+/** Exponential moving average, seeded with the SMA of the first `period` values. */
+export function ema(values: number[], period: number): Series {
+  const out: Series = new Array(values.length).fill(null);
+  if (period <= 0 || values.length < period) return out;
+  const k = 2 / (period + 1);
+  let prev = values.slice(0, period).reduce((a, b) => a + b, 0) / period;
+  out[period - 1] = prev;
+  for (let i = period; i < values.length; i++) {
+    prev = values[i] * k + prev * (1 - k);
+    out[i] = prev;
+  }
+  return out;
+}
+
+/**
+ * Wilder's smoothing (RMA): SMA seed, then prev + (x - prev) / period.
+ * Used by RSI here and by ATR/ADX-style indicators.
+ */
+export function wilder(values: number[], period: number): Series {
+  const out: Series = new Array(values.length).fill(null);
+  if (period <= 0 || values.length < period) return out;
+  let prev = values.slice(0, period).reduce((a, b) => a + b, 0) / period;
+  out[period - 1] = prev;
+  for (let i = period; i < values.length; i++) {
+    prev = prev + (values[i] - prev) / period;
+    out[i] = prev;
+  }
+  return out;
+}
+
+/** Wilder RSI. The first value lands on index `period` (it needs `period` price changes). */
+export function rsi(closes: number[], period = 14): Series {
+  const out: Series = new Array(closes.length).fill(null);
+  if (closes.length < period + 1) return out;
+
+  const gains: number[] = [];
+  const losses: number[] = [];
+  for (let i = 1; i < closes.length; i++) {
+    const diff = closes[i] - closes[i - 1];
+    gains.push(Math.max(diff, 0));
+    losses.push(Math.max(-diff, 0));
+  }
+
+  const avgGain = wilder(gains, period);
+  const avgLoss = wilder(losses, period);
+  for (let i = period - 1; i < gains.length; i++) {
+    const g = avgGain[i]!;
+    const l = avgLoss[i]!;
+    // flat series reads as neutral; only gains reads as 100
+    out[i + 1] = l === 0 ? (g === 0 ? 50 : 100) : 100 - 100 / (1 + g / l);
+  }
+  return out;
+}
+
+// ---------- Helpers for derived series ----------
+
+/** Apply a plain-array indicator to the non-null tail of a series, keeping alignment. */
+function onDefined(series: Series, fn: (values: number[]) => Series): Series {
+  const first = series.findIndex((v) => v !== null);
+  if (first < 0) return new Array(series.length).fill(null);
+  return [...new Array(first).fill(null), ...fn(series.slice(first) as number[])];
+}
+
+function rollingMax(values: number[], i: number, period: number) {
+  let m = -Infinity;
+  for (let j = i - period + 1; j <= i; j++) m = Math.max(m, values[j]);
+  return m;
+}
+
+function rollingMin(values: number[], i: number, period: number) {
+  let m = Infinity;
+  for (let j = i - period + 1; j <= i; j++) m = Math.min(m, values[j]);
+  return m;
+}
+
+export interface OHLCV {
+  high: number[];
+  low: number[];
+  close: number[];
+  volume: number[];
+}
+
+// ---------- Trend / momentum ----------
+
+export interface MACD {
+  macd: Series;
+  signal: Series;
+  histogram: Series;
+}
+
+export function macd(closes: number[], fast = 12, slow = 26, signalPeriod = 9): MACD {
+  const fastEma = ema(closes, fast);
+  const slowEma = ema(closes, slow);
+  const line: Series = closes.map((_, i) =>
+    fastEma[i] !== null && slowEma[i] !== null ? fastEma[i]! - slowEma[i]! : null
+  );
+  const signal = onDefined(line, (v) => ema(v, signalPeriod));
+  const histogram = line.map((v, i) => (v !== null && signal[i] !== null ? v - signal[i]! : null));
+  return { macd: line, signal, histogram };
+}
+
+export interface Stochastic {
+  k: Series;
+  d: Series;
+}
+
+/** Slow stochastic: raw %K over `kPeriod`, smoothed by `kSmoothing`, %D = SMA(`dPeriod`) of %K. */
+export function stochastic(bars: OHLCV, kPeriod = 14, kSmoothing = 3, dPeriod = 3): Stochastic {
+  const { high, low, close } = bars;
+  const raw: Series = close.map((c, i) => {
+    if (i < kPeriod - 1) return null;
+    const hh = rollingMax(high, i, kPeriod);
+    const ll = rollingMin(low, i, kPeriod);
+    return hh === ll ? 50 : ((c - ll) / (hh - ll)) * 100;
+  });
+  const k = onDefined(raw, (v) => sma(v, kSmoothing));
+  const d = onDefined(k, (v) => sma(v, dPeriod));
+  return { k, d };
+}
+
+export interface DMI {
+  adx: Series;
+  plusDI: Series;
+  minusDI: Series;
+}
+
+/** Wilder's ADX with +DI/-DI. ADX needs roughly 2 × period bars to warm up. */
+export function adx(bars: OHLCV, period = 14): DMI {
+  const { high, low } = bars;
+  const n = high.length;
+  const empty = (): DMI => ({ adx: new Array(n).fill(null), plusDI: new Array(n).fill(null), minusDI: new Array(n).fill(null) });
+  if (n < period + 1) return empty();
+
+  const plusDM: number[] = [];
+  const minusDM: number[] = [];
+  const tr = trueRange(bars).slice(1) as number[];
+  for (let i = 1; i < n; i++) {
+    const up = high[i] - high[i - 1];
+    const down = low[i - 1] - low[i];
+    plusDM.push(up > down && up > 0 ? up : 0);
+    minusDM.push(down > up && down > 0 ? down : 0);
+  }
+
+  const atrS = wilder(tr, period);
+  const plusS = wilder(plusDM, period);
+  const minusS = wilder(minusDM, period);
+  const out = empty();
+  const dx: Series = [];
+  for (let i = 0; i < tr.length; i++) {
+    const a = atrS[i];
+    if (a === null || a === 0) {
+      dx.push(null);
+      continue;
+    }
+    const p = (plusS[i]! / a) * 100;
+    const m = (minusS[i]! / a) * 100;
+    out.plusDI[i + 1] = p;
+    out.minusDI[i + 1] = m;
+    dx.push(p + m === 0 ? 0 : (Math.abs(p - m) / (p + m)) * 100);
+  }
+  const adxS = onDefined(dx, (v) => wilder(v, period));
+  for (let i = 0; i < adxS.length; i++) out.adx[i + 1] = adxS[i];
+  return out;
+}
+
+export interface Supertrend {
+  line: Series;
+  /** 1 = uptrend (line below price), -1 = downtrend. */
+  direction: (1 | -1 | null)[];
+}
+
+export function supertrend(bars: OHLCV, period = 10, multiplier = 3): Supertrend {
+  const { high, low, close } = bars;
+  const atrS = atr(bars, period);
+  const line: Series = new Array(close.length).fill(null);
+  const direction: (1 | -1 | null)[] = new Array(close.length).fill(null);
+
+  let upper = 0;
+  let lower = 0;
+  let dir: 1 | -1 = 1;
+  for (let i = 0; i < close.length; i++) {
+    const a = atrS[i];
+    if (a === null) continue;
+    const mid = (high[i] + low[i]) / 2;
+    const basicUpper = mid + multiplier * a;
+    const basicLower = mid - multiplier * a;
+
+    if (i === 0 || line[i - 1] === null) {
+      upper = basicUpper;
+      lower = basicLower;
+      dir = close[i] >= mid ? 1 : -1;
+    } else {
+      // bands only tighten while price stays on their side
+      upper = basicUpper < upper || close[i - 1] > upper ? basicUpper : upper;
+      lower = basicLower > lower || close[i - 1] < lower ? basicLower : lower;
+      if (dir === 1 && close[i] < lower) dir = -1;
+      else if (dir === -1 && close[i] > upper) dir = 1;
+    }
+    line[i] = dir === 1 ? lower : upper;
+    direction[i] = dir;
+  }
+  return { line, direction };
+}
+
+// ---------- Volatility ----------
+
+export function trueRange(bars: OHLCV): Series {
+  const { high, low, close } = bars;
+  return high.map((h, i) =>
+    i === 0 ? h - low[i] : Math.max(h - low[i], Math.abs(h - close[i - 1]), Math.abs(low[i] - close[i - 1]))
+  );
+}
+
+/** Average true range with Wilder smoothing. */
+export function atr(bars: OHLCV, period = 14): Series {
+  return onDefined(trueRange(bars), (v) => wilder(v, period));
+}
+
+export interface Bollinger {
+  middle: Series;
+  upper: Series;
+  lower: Series;
+  /** (upper - lower) / middle; low values mark a squeeze. */
+  width: Series;
+  /** Where the close sits in the band: 0 = lower, 1 = upper. */
+  percentB: Series;
+}
+
+export function bollinger(closes: number[], period = 20, stdDevs = 2): Bollinger {
+  const middle = sma(closes, period);
+  const n = closes.length;
+  const out: Bollinger = {
+    middle,
+    upper: new Array(n).fill(null),
+    lower: new Array(n).fill(null),
+    width: new Array(n).fill(null),
+    percentB: new Array(n).fill(null),
+  };
+  for (let i = period - 1; i < n; i++) {
+    const m = middle[i]!;
+    let variance = 0;
+    for (let j = i - period + 1; j <= i; j++) variance += (closes[j] - m) ** 2;
+    const sd = Math.sqrt(variance / period);
+    const up = m + stdDevs * sd;
+    const lo = m - stdDevs * sd;
+    out.upper[i] = up;
+    out.lower[i] = lo;
+    out.width[i] = m === 0 ? null : (up - lo) / m;
+    out.percentB[i] = up === lo ? 0.5 : (closes[i] - lo) / (up - lo);
+  }
+  return out;
+}
+
+// ---------- Volume ----------
+
+/**
+ * Volume-weighted average price on typical price. `sessions` (one key per bar, e.g.
+ * the trading date) restarts the average whenever the key changes; omit it for an
+ * average anchored at the first bar.
+ */
+export function vwap(bars: OHLCV, sessions?: (string | number | null)[]): Series {
+  const { high, low, close, volume } = bars;
+  let pv = 0;
+  let vol = 0;
+  let key: string | number | null | undefined;
+  return close.map((c, i) => {
+    const k = sessions?.[i];
+    if (sessions && k !== key) {
+      pv = 0;
+      vol = 0;
+      key = k;
+    }
+    const typical = (high[i] + low[i] + c) / 3;
+    pv += typical * volume[i];
+    vol += volume[i];
+    return vol > 0 ? pv / vol : typical;
+  });
+}
+
+/** On-balance volume; defined from the first bar (starts at 0). */
+export function obv(bars: OHLCV): Series {
+  const { close, volume } = bars;
+  let total = 0;
+  return close.map((c, i) => {
+    if (i > 0) total += c > close[i - 1] ? volume[i] : c < close[i - 1] ? -volume[i] : 0;
+    return total;
+  });
+}
+
+// ---------- Snapshot ----------
+
+/** Tunable periods for indicatorSnapshot(). */
+export interface IndicatorParams {
+  macd: { fast: number; slow: number; signal: number };
+  bollinger: { period: number; stdDevs: number };
+  atr: { period: number };
+  stochastic: { kPeriod: number; kSmoothing: number; dPeriod: number };
+  adx: { period: number };
+  supertrend: { period: number; multiplier: number };
+  /** Bars over which the OBV slope is measured. */
+  obvSlope: { period: number };
+}
+
+export const DEFAULT_INDICATOR_PARAMS: IndicatorParams = {
+  macd: { fast: 12, slow: 26, signal: 9 },
+  bollinger: { period: 20, stdDevs: 2 },
+  atr: { period: 14 },
+  stochastic: { kPeriod: 14, kSmoothing: 3, dPeriod: 3 },
+  adx: { period: 14 },
+  supertrend: { period: 10, multiplier: 3 },
+  obvSlope: { period: 10 },
+};
+
+/** Latest reading of each extended indicator; null where history is too short. */
+export interface IndicatorSnapshot {
+  macd: number | null;
+  macdSignal: number | null;
+  macdHist: number | null;
+  bbUpper: number | null;
+  bbLower: number | null;
+  bbWidth: number | null;
+  percentB: number | null;
+  atr: number | null;
+  vwap: number | null;
+  stochK: number | null;
+  stochD: number | null;
+  adx: number | null;
+  plusDI: number | null;
+  minusDI: number | null;
+  obv: number | null;
+  /** OBV change over `obvSlope.period` bars, as a fraction of the volume traded in them. */
+  obvSlope: number | null;
+  supertrend: number | null;
+  supertrendDir: 1 | -1 | null;
+}
+
+export function indicatorSnapshot(
+  bars: OHLCV,
+  params: Partial<IndicatorParams> = {},
+  sessions?: (string | number | null)[]
+): IndicatorSnapshot {
+  const p: IndicatorParams = { ...DEFAULT_INDICATOR_PARAMS, ...params };
+  const m = macd(bars.close, p.macd.fast, p.macd.slow, p.macd.signal);
+  const bb = bollinger(bars.close, p.bollinger.period, p.bollinger.stdDevs);
+  const st = stochastic(bars, p.stochastic.kPeriod, p.stochastic.kSmoothing, p.stochastic.dPeriod);
+  const dmi = adx(bars, p.adx.period);
+  const sup = supertrend(bars, p.supertrend.period, p.supertrend.multiplier);
+  const ob = obv(bars);
+
+  const n = bars.close.length;
+  const lookback = p.obvSlope.period;
+  let obvSlope: number | null = null;
+  if (n > lookback) {
+    const traded = bars.volume.slice(n - lookback).reduce((a, b) => a + b, 0);
+    obvSlope = traded > 0 ? (ob[n - 1]! - ob[n - 1 - lookback]!) / traded : 0;
+  }
+
+  return {
+    macd: last(m.macd),
+    macdSignal: last(m.signal),
+    macdHist: last(m.histogram),
+    bbUpper: last(bb.upper),
+    bbLower: last(bb.lower),
+    bbWidth: last(bb.width),
+    percentB: last(bb.percentB),
+    atr: last(atr(bars, p.atr.period)),
+    vwap: n ? last(vwap(bars, sessions)) : null,
+    stochK: last(st.k),
+    stochD: last(st.d),
+    adx: last(dmi.adx),
+    plusDI: last(dmi.plusDI),
+    minusDI: last(dmi.minusDI),
+    obv: last(ob),
+    obvSlope,
+    supertrend: last(sup.line),
+    supertrendDir: sup.direction.length ? sup.direction[sup.direction.length - 1] : null,
+  };
+}
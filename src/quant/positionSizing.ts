@@ -0,0 +1,177 @@
+// src/quant/positionSizing.ts
+// How much to buy: risk a fixed share of the account on the distance from entry to
+// stop, rounded down to whole lots and never more than the account can pay for.
+// Entry and stop are first snapped to the instrument's tick.
+//
+// Account settings live per device (localStorage "accountRisk", set on /settings) in the browser and in
+// the ACCOUNT_RISK env var on the server, e.g. {"equity":{"INR":500000,"USD":5000},"riskPct":1}.
+// Equity is kept per currency; USDT pairs draw on the USD balance.
+import { getInstrument, Instrument } from "@/src/market/instruments";
+
+export type Currency = Instrument["currency"];
+
+export interface AccountRisk {
+  /** Capital available per account currency. */
+  equity: Partial<Record<"INR" | "USD", number>>;
+  /** Percent of equity risked per trade (1 = 1%). */
+  riskPct: number;
+}
+
+export const DEFAULT_ACCOUNT_RISK: AccountRisk = { equity: { INR: 100_000, USD: 1_000 }, riskPct: 1 };
+
+export interface PositionSize {
+  quantity: number;
+  lots: number;
+  lotSize: number;
+  currency: Currency;
+  /** Entry and stop after snapping to the tick. */
+  entry: number;
+  stoploss: number;
+  riskPerUnit: number;
+  /** Money lost if the stop is hit with `quantity`. */
+  riskAmount: number;
+  capitalRequired: number;
+  /** Set when the size is below what the risk budget allows, or zero. */
+  limitedBy?: "equity" | "minLot";
+}
+
+export interface SizingInput {
+  entry: number;
+  stoploss: number;
+  lotSize: number;
+  tickSize: number;
+  currency: Currency;
+}
+
+// ---------- Rounding ----------
+
+function decimals(step: number) {
+  const s = String(step);
+  if (s.includes("e-")) return Number(s.split("e-")[1]);
+  return s.includes(".") ? s.split(".")[1].length : 0;
+}
+
+/** Snap to the tick; "down"/"up" for stops, so rounding never tightens them. */
+export function roundToTick(price: number, tickSize: number, mode: "nearest" | "down" | "up" = "nearest"): number {
+  if (!(tickSize > 0)) return price;
+  const steps = price / tickSize;
+  const n = mode === "down" ? Math.floor(steps + 1e-9) : mode === "up" ? Math.ceil(steps - 1e-9) : Math.round(steps);
+  return Number((n * tickSize).toFixed(decimals(tickSize)));
+}
+
+// ---------- Sizing ----------
+
+export function sizePosition(input: SizingInput, account: AccountRisk): PositionSize | null {
+  const { lotSize, tickSize, currency } = input;
+  const equity = account.equity[currency === "INR" ? "INR" : "USD"] ?? 0;
+  if (!(input.entry > 0) || !(input.stoploss > 0) || !(lotSize > 0) || !(equity > 0)) return null;
+
+  const long = input.stoploss < input.entry;
+  const entry = roundToTick(input.entry, tickSize);
+  const stoploss = roundToTick(input.stoploss, tickSize, long ? "down" : "up");
+  const riskPerUnit = Math.abs(entry - stoploss);
+  if (!(riskPerUnit > 0)) return null;
+
+  const budget = equity * (account.riskPct / 100);
+  let lots = Math.floor(budget / (riskPerUnit * lotSize) + 1e-9);
+  let limitedBy: PositionSize["limitedBy"];
+  const affordable = Math.floor(equity / (entry * lotSize) + 1e-9);
+  if (lots > affordable) {
+    lots = affordable;
+    limitedBy = "equity";
+  }
+  if (lots <= 0) {
+    lots = 0;
+    limitedBy = limitedBy ?? "minLot";
+  }
+
+  const quantity = Number((lots * lotSize).toFixed(decimals(lotSize)));
+  return {
+    quantity,
+    lots,
+    lotSize,
+    currency,
+    entry,
+    stoploss,
+    riskPerUnit,
+    riskAmount: quantity * riskPerUnit,
+    capitalRequired: quantity * entry,
+    limitedBy,
+  };
+}
+
+/** Size a signal on `symbol` using the instrument master's lot and tick size. */
+export function sizeFor(symbol: string, entry: number, stoploss: number, account: AccountRisk = loadAccountRisk()): PositionSize | null {
+  const inst = getInstrument(symbol);
+  return sizePosition(
+    { entry, stoploss, lotSize: inst?.lotSize ?? 1, tickSize: inst?.tickSize ?? 0.01, currency: inst?.currency ?? "INR" },
+    account
+  );
+}
+
+/** "₹1,250.00" / "$12.50" for sizing figures. */
+export function formatMoney(amount: number, currency: Currency): string {
+  const symbol = currency === "INR" ? "₹" : "$";
+  return `${symbol}${amount.toLocaleString(currency === "INR" ? "en-IN" : "en-US", { maximumFractionDigits: 2, minimumFractionDigits: 2 })}`;
+}
+
+/** One line for cards and confirmations: "Size: 75 (1 lot) · capital ₹18,750.00 · risk ₹937.50". */
+export function describePosition(p: PositionSize): string {
+  if (!p.quantity) return p.limitedBy === "equity" ? "Size: equity too small for one lot" : "Size: risk budget below one lot";
+  // fractional lot sizes are just quantity steps (crypto); only F&O-style lots are worth naming
+  const lots = p.lotSize > 1 ? ` (${p.lots} lot${p.lots === 1 ? "" : "s"})` : "";
+  const capped = p.limitedBy === "equity" ? " (capped by equity)" : "";
+  return `Size: ${p.quantity}${lots} · capital ${formatMoney(p.capitalRequired, p.currency)} · risk ${formatMoney(p.riskAmount, p.currency)}${capped}`;
+}
+
+// ---------- Settings ----------
+
+const STORAGE_KEY = "accountRisk";
+
+/** Problems with account settings; empty when they can be used. */
+export function validateAccountRisk(account: AccountRisk): string[] {
+  const errors: string[] = [];
+  if (typeof account?.equity !== "object" || account.equity === null) errors.push("equity: expected an object of currency amounts");
+  else {
+    for (const [k, v] of Object.entries(account.equity)) {
+      if (k !== "INR" && k !== "USD") errors.push(`equity.${k}: expected INR or USD`);
+      else if (!(typeof v === "number" && v >= 0)) errors.push(`equity.${k}: expected a non-negative number`);
+    }
+  }
+  if (!(typeof account?.riskPct === "number" && account.riskPct > 0 && account.riskPct <= 100)) errors.push("riskPct: expected 0..100");
+  return errors;
+}
+
+function parseAccountRisk(raw: string | null | undefined, source: string): AccountRisk {
+  if (!raw) return DEFAULT_ACCOUNT_RISK;
+  try {
+    const parsed = JSON.parse(raw) as AccountRisk;
+    const errors = validateAccountRisk(parsed);
+    if (!errors.length) return parsed;
+    console.warn(`Ignoring account risk from ${source}:`, errors.join("; "));
+  } catch (err) {
+    console.warn(`Ignoring account risk from ${source}`, err);
+  }
+  return DEFAULT_ACCOUNT_RISK;
+}
+
+export function loadAccountRisk(): AccountRisk {
+  if (typeof window === "undefined") return parseAccountRisk(process.env.ACCOUNT_RISK, "ACCOUNT_RISK");
+  try {
+    return parseAccountRisk(localStorage.getItem(STORAGE_KEY), "localStorage");
+  } catch {
+    return DEFAULT_ACCOUNT_RISK;
+  }
+}
+
+/** Persist browser-side settings. Returns the validation errors (nothing is saved if any). */
+export function saveAccountRisk(account: AccountRisk): string[] {
+  const errors = validateAccountRisk(account);
+  if (errors.length) return errors;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(account));
+  } catch (err) {
+    console.warn("saveAccountRisk failed", err);
+  }
+  return [];
+}
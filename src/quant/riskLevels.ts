@@ -0,0 +1,183 @@
+// src/quant/riskLevels.ts
+// Stops, targets and risk:reward for every strategy and page. Stops go beyond the
+// entry zone, beyond the last swing, or an ATR multiple away, whichever placement
+// is tried first and lands within reach; targets are R multiples of that risk or
+// the opposing swing liquidity. Sizing everything off the instrument's own
+// volatility is what keeps BTC and NIFTY on comparable terms.
+import type { SignalResult } from "@/src/utils/xaiLogic";
+import type { SwingPoint } from "./structure";
+import type { Zone } from "./zones";
+
+export type StopMethod = "zone" | "swing" | "atr";
+export type TargetMethod = "r" | "liquidity";
+export type Side = "long" | "short";
+
+export interface RiskOptions {
+  /** Placements to try, in order; the first valid one wins, "atr" always succeeds. */
+  stopMethods: StopMethod[];
+  atrMultiple: number;
+  /** Padding beyond a zone or swing, in ATRs. */
+  bufferAtr: number;
+  /** Zone/swing stops further than this many ATRs from entry fall through to the next method. */
+  maxStopAtr: number;
+  targetMethod: TargetMethod;
+  targetsR: number[];
+  /** Liquidity targets closer than this many R are skipped. */
+  minTargetR: number;
+  /** Stand-in ATR, as a fraction of entry, when there isn't enough history for a real one. */
+  fallbackAtrPct: number;
+}
+
+export const DEFAULT_RISK_OPTIONS: RiskOptions = {
+  stopMethods: ["zone", "swing", "atr"],
+  atrMultiple: 1.5,
+  bufferAtr: 0.25,
+  maxStopAtr: 3,
+  targetMethod: "r",
+  targetsR: [1, 2, 3],
+  minTargetR: 1,
+  fallbackAtrPct: 0.01,
+};
+
+export interface RiskInput {
+  side: Side;
+  entry: number;
+  atr?: number | null;
+  /** Confirmed swings, oldest first. */
+  swings?: SwingPoint[];
+  /** Zone the entry is taken from. */
+  zone?: Zone | null;
+}
+
+export interface RiskLevels {
+  side: Side;
+  entry: number;
+  stoploss: number;
+  targets: number[];
+  /** Entry-to-stop distance per unit. */
+  risk: number;
+  /** Reward:risk of each target, e.g. [1, 2, 3]. */
+  rewardRisk: number[];
+  /** "strategy" when the strategy placed the level itself. */
+  stopMethod: StopMethod | "strategy";
+  targetMethod: TargetMethod | "strategy";
+}
+
+// ---------- Stops ----------
+
+function placeStop(method: StopMethod, input: RiskInput, atr: number, o: RiskOptions): number | null {
+  const { side, entry } = input;
+  const long = side === "long";
+  const buffer = atr * o.bufferAtr;
+  let stop: number | null = null;
+
+  if (method === "atr") return long ? entry - atr * o.atrMultiple : entry + atr * o.atrMultiple;
+  if (method === "zone" && input.zone) stop = long ? input.zone.bottom - buffer : input.zone.top + buffer;
+  if (method === "swing") {
+    const swing = [...(input.swings ?? [])]
+      .reverse()
+      .find((s) => s.kind === (long ? "low" : "high") && (long ? s.price < entry : s.price > entry));
+    if (swing) stop = long ? swing.price - buffer : swing.price + buffer;
+  }
+  if (stop === null || Math.abs(entry - stop) > atr * o.maxStopAtr) return null;
+  return (long ? stop < entry : stop > entry) ? stop : null;
+}
+
+// ---------- Targets ----------
+
+/**
+ * Swing highs above a long entry (lows below a short one) that no later swing has
+ * taken out, nearest first. Built from swings only, so a level run by a wick that
+ * never formed a new swing still counts.
+ */
+function opposingLiquidity(side: Side, entry: number, swings: SwingPoint[]): number[] {
+  const kind = side === "long" ? "high" : "low";
+  const levels: number[] = [];
+  let extreme = side === "long" ? -Infinity : Infinity;
+  for (let i = swings.length - 1; i >= 0; i--) {
+    const s = swings[i];
+    if (s.kind !== kind) continue;
+    const untaken = side === "long" ? s.price > extreme : s.price < extreme;
+    if (untaken) {
+      extreme = s.price;
+      if (side === "long" ? s.price > entry : s.price < entry) levels.push(s.price);
+    }
+  }
+  return levels.sort((a, b) => (side === "long" ? a - b : b - a));
+}
+
+/** Reward:risk of each target, rounded to 0.01. */
+export function rewardRisk(entry: number, stoploss: number, targets: number[]): number[] {
+  const risk = Math.abs(entry - stoploss);
+  return targets.map((t) => (risk > 0 ? Math.round((Math.abs(t - entry) / risk) * 100) / 100 : 0));
+}
+
+/** Describe levels a strategy placed itself. */
+export function measureLevels(
+  side: Side,
+  entry: number,
+  stoploss: number,
+  targets: number[],
+  stopMethod: RiskLevels["stopMethod"] = "strategy",
+  targetMethod: RiskLevels["targetMethod"] = "strategy"
+): RiskLevels {
+  return {
+    side,
+    entry,
+    stoploss,
+    targets,
+    risk: Math.abs(entry - stoploss),
+    rewardRisk: rewardRisk(entry, stoploss, targets),
+    stopMethod,
+    targetMethod,
+  };
+}
+
+export function riskLevels(input: RiskInput, options: Partial<RiskOptions> = {}): RiskLevels {
+  const o = { ...DEFAULT_RISK_OPTIONS, ...options };
+  const { side, entry } = input;
+  const long = side === "long";
+  const atr = input.atr && input.atr > 0 ? input.atr : entry * o.fallbackAtrPct;
+
+  let stopMethod: StopMethod = "atr";
+  let stoploss = placeStop("atr", input, atr, o)!;
+  for (const method of o.stopMethods) {
+    const stop = placeStop(method, input, atr, o);
+    if (stop !== null) {
+      stopMethod = method;
+      stoploss = stop;
+      break;
+    }
+  }
+  const risk = Math.abs(entry - stoploss);
+  const atR = (r: number) => (long ? entry + r * risk : entry - r * risk);
+
+  let targetMethod: TargetMethod = "r";
+  let targets = o.targetsR.map(atR);
+  if (o.targetMethod === "liquidity") {
+    const pools = opposingLiquidity(side, entry, input.swings ?? []).filter((p) => Math.abs(p - entry) >= o.minTargetR * risk);
+    if (pools.length) {
+      targetMethod = "liquidity";
+      // top up with R multiples beyond the furthest pool when there are fewer pools than targets
+      const furthest = Math.abs(pools[Math.min(pools.length, o.targetsR.length) - 1] - entry) / risk;
+      const extra = o.targetsR.filter((r) => r > furthest).map(atR);
+      targets = [...pools, ...extra].slice(0, o.targetsR.length);
+    }
+  }
+
+  return measureLevels(side, entry, stoploss, targets, stopMethod, targetMethod);
+}
+
+// ---------- Pages ----------
+
+/**
+ * Levels to show and track for a signal: the strategy's own for BUY/SELL, with
+ * reward:risk filled in; the price itself and no targets for HOLD.
+ */
+export function signalLevels(result: SignalResult, price: number): { stoploss: number; targets: number[]; rewardRisk: number[] } {
+  if (result.signal === "HOLD") return { stoploss: price, targets: [], rewardRisk: [] };
+  const levels =
+    result.risk ??
+    measureLevels(result.signal === "BUY" ? "long" : "short", result.entryPrice ?? price, result.stoploss, result.targets);
+  return { stoploss: levels.stoploss, targets: levels.targets, rewardRisk: levels.rewardRisk };
+}
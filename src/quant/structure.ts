@@ -0,0 +1,168 @@
+// src/quant/structure.ts
+// Market structure from fractal swing pivots. A pivot only exists once `right` bars
+// have printed after it, and breaks are checked against confirmed pivots only, so
+// the output never depends on future bars and can be replayed bar by bar.
+
+export type StructureDirection = "BULLISH" | "BEARISH";
+
+export type SwingLabel = "HH" | "HL" | "LH" | "LL";
+
+export interface SwingPoint {
+  kind: "high" | "low";
+  price: number;
+  /** Bar index of the pivot itself. */
+  index: number;
+  time: number | null;
+  /** Bar index at which the pivot became known (index + right). */
+  confirmedAt: number;
+  /** Relative to the previous swing of the same kind; null for the first one. */
+  label: SwingLabel | null;
+}
+
+export interface StructureEvent {
+  /** BOS continues the current trend, CHoCH flips it. */
+  type: "BOS" | "CHoCH";
+  direction: StructureDirection;
+  /** Price of the swing that was broken. */
+  level: number;
+  swing: SwingPoint;
+  /** Bar that closed (or wicked) through the level. */
+  index: number;
+  time: number | null;
+}
+
+export interface StructureOptions {
+  /** Bars on the left that must be lower (for a high) / higher (for a low). */
+  left: number;
+  /** Bars on the right; also the confirmation delay. */
+  right: number;
+  /** Whether a level breaks on a close beyond it or on any wick. */
+  breakOn: "close" | "wick";
+}
+
+export const DEFAULT_STRUCTURE_OPTIONS: StructureOptions = { left: 2, right: 2, breakOn: "close" };
+
+export interface StructureBars {
+  high: number[];
+  low: number[];
+  close?: number[];
+  time?: number[];
+}
+
+export interface MarketStructure {
+  swings: SwingPoint[];
+  events: StructureEvent[];
+  /** Direction of the most recent event, null before the first break. */
+  trend: StructureDirection | null;
+}
+
+function isPivot(values: number[], i: number, left: number, right: number, kind: "high" | "low") {
+  const v = values[i];
+  for (let j = i - left; j <= i + right; j++) {
+    if (j === i) continue;
+    // ties on the left disqualify, ties on the right don't, so flat tops pick the first bar
+    if (kind === "high" ? (j < i ? values[j] >= v : values[j] > v) : j < i ? values[j] <= v : values[j] < v) return false;
+  }
+  return true;
+}
+
+/** Fractal pivots with HH/HL/LH/LL labels, in confirmation order. */
+export function swingPoints(bars: StructureBars, options: Partial<StructureOptions> = {}): SwingPoint[] {
+  return analyzeStructure(bars, options).swings;
+}
+
+export function analyzeStructure(bars: StructureBars, options: Partial<StructureOptions> = {}): MarketStructure {
+  const { left, right, breakOn } = { ...DEFAULT_STRUCTURE_OPTIONS, ...options };
+  const { high, low } = bars;
+  const close = bars.close && bars.close.length === high.length ? bars.close : null;
+  const n = Math.min(high.length, low.length);
+
+  const swings: SwingPoint[] = [];
+  const events: StructureEvent[] = [];
+  let trend: StructureDirection | null = null;
+  let prevHigh: SwingPoint | null = null;
+  let prevLow: SwingPoint | null = null;
+  // latest confirmed swing on each side that hasn't been broken yet
+  let activeHigh: SwingPoint | null = null;
+  let activeLow: SwingPoint | null = null;
+
+  for (let i = 0; i < n; i++) {
+    // 1) pivots whose right-hand window just completed
+    const p = i - right;
+    if (p >= left) {
+      if (isPivot(high, p, left, right, "high")) {
+        const swing: SwingPoint = {
+          kind: "high",
+          price: high[p],
+          index: p,
+          time: bars.time?.[p] ?? null,
+          confirmedAt: i,
+          label: prevHigh ? (high[p] > prevHigh.price ? "HH" : "LH") : null,
+        };
+        swings.push(swing);
+        prevHigh = swing;
+        activeHigh = swing;
+      }
+      if (isPivot(low, p, left, right, "low")) {
+        const swing: SwingPoint = {
+          kind: "low",
+          price: low[p],
+          index: p,
+          time: bars.time?.[p] ?? null,
+          confirmedAt: i,
+          label: prevLow ? (low[p] > prevLow.price ? "HL" : "LL") : null,
+        };
+        swings.push(swing);
+        prevLow = swing;
+        activeLow = swing;
+      }
+    }
+
+    // 2) breaks of confirmed levels by this bar (pivots confirmed on this same bar
+    //    sit inside its window, so they can only be broken from the next bar on)
+    const up = breakOn === "close" && close ? close[i] : high[i];
+    const down = breakOn === "close" && close ? close[i] : low[i];
+
+    if (activeHigh && activeHigh.confirmedAt < i && up > activeHigh.price) {
+      events.push({
+        type: trend === "BEARISH" ? "CHoCH" : "BOS",
+        direction: "BULLISH",
+        level: activeHigh.price,
+        swing: activeHigh,
+        index: i,
+        time: bars.time?.[i] ?? null,
+      });
+      trend = "BULLISH";
+      activeHigh = null;
+    }
+    if (activeLow && activeLow.confirmedAt < i && down < activeLow.price) {
+      events.push({
+        type: trend === "BULLISH" ? "CHoCH" : "BOS",
+        direction: "BEARISH",
+        level: activeLow.price,
+        swing: activeLow,
+        index: i,
+        time: bars.time?.[i] ?? null,
+      });
+      trend = "BEARISH";
+      activeLow = null;
+    }
+  }
+
+  return { swings, events, trend };
+}
+
+/** Most recent event of `type` that happened within the last `withinBars` bars. */
+export function recentEvent(
+  structure: MarketStructure,
+  type: StructureEvent["type"],
+  barCount: number,
+  withinBars: number
+): StructureEvent | null {
+  for (let i = structure.events.length - 1; i >= 0; i--) {
+    const e = structure.events[i];
+    if (e.index < barCount - withinBars) return null;
+    if (e.type === type) return e;
+  }
+  return null;
+}
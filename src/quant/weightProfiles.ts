@@ -0,0 +1,171 @@
+// src/quant/weightProfiles.ts
+// Named, versioned weight sets for the SMC confidence engine: the per-detector SMC
+// weights, the indicator/SMC blend and the thresholds generateSMCSignal trades on.
+// Built-in profiles live here; more (or newer versions) come from the
+// weight_profiles table via src/supabase/weightProfiles.ts.
+import { AssetClass, assetClassOf, canonicalSymbol } from "@/src/market/instruments";
+
+export interface SMCWeights {
+  bos: number;
+  choch: number;
+  liquiditySweep: number;
+  volumeSurge: number;
+  orderBlock: number;
+  mitigation: number;
+  breaker: number;
+  fvg: number;
+  /** Bonus when the fib zone agrees with the trend (discount in an uptrend, premium in a downtrend). */
+  fibAlignment: number;
+}
+
+export interface WeightProfile {
+  id: string;
+  version: string;
+  description?: string;
+  smc: SMCWeights;
+  /** Shares of the final confidence; must add up to 1. */
+  blend: { indicator: number; smc: number };
+  /** SMC score at which a BOS/CHoCH alone is enough bias to trade. */
+  strongSmcThreshold: number;
+  /** Indicator score (0-40) that counts as agreement without the full buy/sell setup. */
+  minIndicatorScore: number;
+}
+
+/** What a signal records about the profile it was scored with. */
+export type WeightProfileStamp = Pick<WeightProfile, "id" | "version" | "smc" | "blend" | "strongSmcThreshold" | "minIndicatorScore">;
+
+export const DEFAULT_WEIGHT_PROFILE: WeightProfile = {
+  id: "default",
+  version: "1.0.0",
+  description: "Original hardcoded weights",
+  smc: { bos: 22, choch: 20, liquiditySweep: 12, volumeSurge: 10, orderBlock: 10, mitigation: 8, breaker: 6, fvg: 5, fibAlignment: 10 },
+  blend: { indicator: 0.4, smc: 0.6 },
+  strongSmcThreshold: 55,
+  minIndicatorScore: 18,
+};
+
+// Crypto trades 24/7 and runs stops constantly, so sweeps and volume carry more;
+// gold respects premium/discount and higher-timeframe structure more than volume.
+const BUILT_IN: WeightProfile[] = [
+  DEFAULT_WEIGHT_PROFILE,
+  {
+    id: "crypto",
+    version: "1.0.0",
+    description: "Liquidity- and volume-led",
+    smc: { bos: 18, choch: 16, liquiditySweep: 18, volumeSurge: 14, orderBlock: 10, mitigation: 6, breaker: 6, fvg: 6, fibAlignment: 6 },
+    blend: { indicator: 0.3, smc: 0.7 },
+    strongSmcThreshold: 60,
+    minIndicatorScore: 18,
+  },
+  {
+    id: "commodity",
+    version: "1.0.0",
+    description: "Structure and premium/discount led",
+    smc: { bos: 24, choch: 22, liquiditySweep: 10, volumeSurge: 4, orderBlock: 12, mitigation: 8, breaker: 6, fvg: 4, fibAlignment: 14 },
+    blend: { indicator: 0.4, smc: 0.6 },
+    strongSmcThreshold: 55,
+    minIndicatorScore: 16,
+  },
+];
+
+// ---------- Validation ----------
+
+const SMC_KEYS = Object.keys(DEFAULT_WEIGHT_PROFILE.smc) as (keyof SMCWeights)[];
+
+/** Problems with a profile; empty when it can be registered. */
+export function validateWeightProfile(profile: unknown): string[] {
+  if (typeof profile !== "object" || profile === null) return ["profile must be an object"];
+  const p = profile as Partial<WeightProfile>;
+  const errors: string[] = [];
+  const num = (v: unknown, min: number, max: number) => typeof v === "number" && Number.isFinite(v) && v >= min && v <= max;
+
+  if (typeof p.id !== "string" || !/^[a-z0-9][a-z0-9_-]{0,39}$/.test(p.id)) errors.push("id: lowercase letters, digits, - and _");
+  if (typeof p.version !== "string" || !/^\d+(\.\d+){0,2}$/.test(p.version)) errors.push('version: expected "major[.minor[.patch]]"');
+
+  if (typeof p.smc !== "object" || p.smc === null) errors.push("smc: required");
+  else for (const k of SMC_KEYS) if (!num(p.smc[k], 0, 100)) errors.push(`smc.${k}: expected 0..100`);
+
+  if (typeof p.blend !== "object" || p.blend === null) errors.push("blend: required");
+  else if (!num(p.blend.indicator, 0, 1) || !num(p.blend.smc, 0, 1)) errors.push("blend: indicator and smc must be 0..1");
+  else if (Math.abs(p.blend.indicator + p.blend.smc - 1) > 1e-6) errors.push("blend: indicator + smc must equal 1");
+
+  if (!num(p.strongSmcThreshold, 0, 100)) errors.push("strongSmcThreshold: expected 0..100");
+  if (!num(p.minIndicatorScore, 0, 40)) errors.push("minIndicatorScore: expected 0..40");
+  return errors;
+}
+
+// ---------- Registry & selection ----------
+
+const profiles = new Map<string, WeightProfile[]>();
+
+function compareVersions(a: string, b: string) {
+  const pa = a.split(".").map(Number);
+  const pb = b.split(".").map(Number);
+  for (let i = 0; i < Math.max(pa.length, pb.length); i++) {
+    const d = (pa[i] ?? 0) - (pb[i] ?? 0);
+    if (d) return d;
+  }
+  return 0;
+}
+
+/** Register (or replace) a profile version. Returns false, with a warning, when it doesn't validate. */
+export function registerWeightProfile(profile: WeightProfile): boolean {
+  const errors = validateWeightProfile(profile);
+  if (errors.length) {
+    console.warn(`Weight profile ${profile?.id ?? "?"} rejected:`, errors.join("; "));
+    return false;
+  }
+  const versions = (profiles.get(profile.id) ?? []).filter((p) => p.version !== profile.version);
+  versions.push(profile);
+  versions.sort((a, b) => compareVersions(a.version, b.version));
+  profiles.set(profile.id, versions);
+  return true;
+}
+
+for (const p of BUILT_IN) registerWeightProfile(p);
+
+/** "crypto" (latest version) or "crypto@1.0.0". */
+export function getWeightProfile(ref: string): WeightProfile | null {
+  const [id, version] = ref.split("@");
+  const versions = profiles.get(id);
+  if (!versions?.length) return null;
+  return version ? versions.find((p) => p.version === version) ?? null : versions[versions.length - 1];
+}
+
+export function listWeightProfiles(): WeightProfile[] {
+  return [...profiles.values()].flat();
+}
+
+export interface WeightProfileSelection {
+  default: string;
+  byAssetClass: Partial<Record<AssetClass, string>>;
+  /** Keyed by canonical symbol. */
+  bySymbol: Record<string, string>;
+}
+
+const selection: WeightProfileSelection = {
+  default: "default",
+  byAssetClass: { crypto: "crypto", commodity: "commodity" },
+  bySymbol: {},
+};
+
+/** Point an asset class or symbol (or, with neither, the default) at a profile ref. */
+export function assignWeightProfile(ref: string, target: { assetClass?: AssetClass; symbol?: string } = {}) {
+  if (target.symbol) selection.bySymbol[canonicalSymbol(target.symbol)] = ref;
+  else if (target.assetClass) selection.byAssetClass[target.assetClass] = ref;
+  else selection.default = ref;
+}
+
+/** Profile for a symbol: symbol assignment, then asset class, then default. */
+export function resolveWeightProfile(symbol: string): WeightProfile {
+  const ref = selection.bySymbol[canonicalSymbol(symbol)] ?? selection.byAssetClass[assetClassOf(symbol)] ?? selection.default;
+  const profile = getWeightProfile(ref);
+  if (profile) return profile;
+  console.warn(`Unknown weight profile ${ref} for ${symbol}; using default`);
+  return DEFAULT_WEIGHT_PROFILE;
+}
+
+export function profileStamp(p: WeightProfile): WeightProfileStamp {
+  const { id, version, smc, blend, strongSmcThreshold, minIndicatorScore } = p;
+  return { id, version, smc, blend, strongSmcThreshold, minIndicatorScore };
+}
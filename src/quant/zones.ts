@@ -0,0 +1,136 @@
+// src/quant/zones.ts
+// Fair value gaps and order blocks as price ranges with a lifecycle. Zones are
+// created from closed bars and then walked forward bar by bar, so the same code
+// serves a full-history scan and incremental updates from a live feed.
+import type { MarketStructure, StructureDirection } from "./structure";
+
+export type ZoneKind = "FVG" | "OB";
+
+/** fresh: untouched; partial: price has traded into it; mitigated: price went through it. */
+export type ZoneStatus = "fresh" | "partial" | "mitigated";
+
+export interface Zone {
+  kind: ZoneKind;
+  /** BULLISH zones are demand below price, BEARISH zones are supply above it. */
+  direction: StructureDirection;
+  top: number;
+  bottom: number;
+  /** Bar that completed the zone; tracking starts on the bar after it. */
+  index: number;
+  time: number | null;
+  status: ZoneStatus;
+  /** Deepest fill so far, 0 (fresh) .. 1 (mitigated). */
+  filled: number;
+  mitigatedAt: number | null;
+}
+
+export interface ZoneBars {
+  open?: number[];
+  high: number[];
+  low: number[];
+  close: number[];
+  time?: number[];
+}
+
+export interface ZoneOptions {
+  /** Ignore gaps smaller than this fraction of price (0.001 = 0.1%). */
+  minGapPct: number;
+  /** How far back from the breaking bar to look for the order-block candle. */
+  obLookback: number;
+}
+
+export const DEFAULT_ZONE_OPTIONS: ZoneOptions = { minGapPct: 0.001, obLookback: 10 };
+
+function makeZone(kind: ZoneKind, direction: StructureDirection, top: number, bottom: number, index: number, time?: number): Zone {
+  return { kind, direction, top, bottom, index, time: time ?? null, status: "fresh", filled: 0, mitigatedAt: null };
+}
+
+/** Three-bar imbalances: bar i's low above bar i-2's high (bullish) or the mirror image. */
+export function findFairValueGaps(bars: ZoneBars, options: Partial<ZoneOptions> = {}): Zone[] {
+  const { minGapPct } = { ...DEFAULT_ZONE_OPTIONS, ...options };
+  const { high, low, close } = bars;
+  const out: Zone[] = [];
+  for (let i = 2; i < close.length; i++) {
+    const minGap = close[i - 1] * minGapPct;
+    if (low[i] - high[i - 2] > minGap) {
+      out.push(makeZone("FVG", "BULLISH", low[i], high[i - 2], i, bars.time?.[i]));
+    } else if (low[i - 2] - high[i] > minGap) {
+      out.push(makeZone("FVG", "BEARISH", low[i - 2], high[i], i, bars.time?.[i]));
+    }
+  }
+  return out;
+}
+
+/**
+ * The last opposite-coloured candle before each structure break: the last down
+ * candle before a bullish break, the last up candle before a bearish one. Without
+ * opens, a close below the previous close counts as a down candle.
+ */
+export function findOrderBlocks(bars: ZoneBars, structure: MarketStructure, options: Partial<ZoneOptions> = {}): Zone[] {
+  const { obLookback } = { ...DEFAULT_ZONE_OPTIONS, ...options };
+  const { high, low, close } = bars;
+  const open = bars.open && bars.open.length === close.length ? bars.open : null;
+  const isDown = (i: number) => (open ? close[i] < open[i] : i > 0 && close[i] < close[i - 1]);
+  const isUp = (i: number) => (open ? close[i] > open[i] : i > 0 && close[i] > close[i - 1]);
+
+  const out: Zone[] = [];
+  for (const event of structure.events) {
+    const bullish = event.direction === "BULLISH";
+    const stop = Math.max(0, event.index - obLookback);
+    for (let i = event.index - 1; i >= stop; i--) {
+      if (bullish ? isDown(i) : isUp(i)) {
+        out.push(makeZone("OB", event.direction, high[i], low[i], event.index, bars.time?.[event.index]));
+        break;
+      }
+    }
+  }
+  return out;
+}
+
+/** Advance one zone by one bar. Returns the zone unchanged once mitigated. */
+export function updateZone(zone: Zone, high: number, low: number, index: number): Zone {
+  if (zone.status === "mitigated" || index <= zone.index) return zone;
+  const height = zone.top - zone.bottom;
+  const depth = zone.direction === "BULLISH" ? zone.top - low : high - zone.bottom;
+  if (depth <= 0) return zone;
+
+  const filled = Math.max(zone.filled, height > 0 ? Math.min(1, depth / height) : 1);
+  if (filled >= 1) return { ...zone, filled: 1, status: "mitigated", mitigatedAt: index };
+  return { ...zone, filled, status: "partial" };
+}
+
+/** Walk zones forward over every bar after their creation. */
+export function trackZones(zones: Zone[], bars: ZoneBars): Zone[] {
+  return zones.map((zone) => {
+    let z = zone;
+    for (let i = zone.index + 1; i < bars.close.length && z.status !== "mitigated"; i++) {
+      z = updateZone(z, bars.high[i], bars.low[i], i);
+    }
+    return z;
+  });
+}
+
+export function activeZones(zones: Zone[]): Zone[] {
+  return zones.filter((z) => z.status !== "mitigated");
+}
+
+/**
+ * Closest unmitigated zone on the entry side of `price`: demand at or below it for
+ * BULLISH, supply at or above it for BEARISH. A zone containing price is distance 0.
+ */
+export function nearestZone(zones: Zone[], price: number, direction: StructureDirection, kind?: ZoneKind): Zone | null {
+  let best: Zone | null = null;
+  let bestDistance = Infinity;
+  for (const z of zones) {
+    if (z.status === "mitigated" || z.direction !== direction || (kind && z.kind !== kind)) continue;
+    const distance =
+      direction === "BULLISH"
+        ? price >= z.bottom ? Math.max(0, price - z.top) : Infinity
+        : price <= z.top ? Math.max(0, z.bottom - price) : Infinity;
+    if (distance < bestDistance) {
+      best = z;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
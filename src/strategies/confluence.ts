@@ -0,0 +1,186 @@
+// src/strategies/confluence.ts
+// Multi-timeframe SMC: the higher timeframe sets the bias (trend plus which half of
+// its recent range price sits in), the lower timeframe supplies the trigger (a fresh
+// CHoCH or BOS in the same direction). BUY/SELL only when both agree; every factor
+// records the timeframe it came from.
+import { atr, last } from "@/src/quant/indicators";
+import { riskLevels } from "@/src/quant/riskLevels";
+import { analyzeStructure, StructureEvent } from "@/src/quant/structure";
+import type { Candle, Timeframe } from "@/src/market/types";
+import { emptyFactors, explainFactors, factor, SignalFactor, SignalFactors } from "@/src/utils/signalFactors";
+import { detectVolumeSurge, getFibZone } from "@/src/utils/xaiLogic";
+import type { SignalResult } from "@/src/utils/xaiLogic";
+import type { Strategy, StrategyContext } from "./types";
+
+export interface ConfluenceOptions {
+  /** Bias timeframe; "1D" reads `ctx.candles`. */
+  htf: Timeframe;
+  /** Trigger timeframe. */
+  ltf: Timeframe;
+  /** HTF bars whose high/low define premium and discount. */
+  rangeBars: number;
+  /** How recent (in LTF bars) the trigger break must be. */
+  triggerWithinBars: number;
+  /** Also require discount for longs / premium for shorts. */
+  requireZone: boolean;
+  targetsR: number[];
+}
+
+const DEFAULTS: Omit<ConfluenceOptions, "htf" | "ltf"> = {
+  rangeBars: 20,
+  triggerWithinBars: 12,
+  requireZone: true,
+  targetsR: [1, 2, 3],
+};
+
+const MIN_BARS = 20;
+const POINTS = { htfBias: 30, htfZone: 20, choch: 30, bos: 25, volume: 10 };
+
+function hold(price: number, factors: SignalFactors, confidence = 0): SignalResult {
+  return { signal: "HOLD", stoploss: price, targets: [price], confidence, explanation: explainFactors(factors), hitStatus: "ACTIVE", factors };
+}
+
+function columns(bars: Candle[]) {
+  return {
+    high: bars.map((c) => c.high),
+    low: bars.map((c) => c.low),
+    close: bars.map((c) => c.close),
+    volume: bars.map((c) => c.volume),
+    time: bars.map((c) => c.time),
+  };
+}
+
+function seriesFor(ctx: StrategyContext, tf: Timeframe): Candle[] {
+  return ctx.timeframes?.[tf] ?? (tf === "1D" ? ctx.candles : []);
+}
+
+/** Latest break on the trigger timeframe, if it happened within the window. */
+function latestBreak(events: StructureEvent[], barCount: number, withinBars: number): StructureEvent | null {
+  const e = events[events.length - 1];
+  return e && e.index >= barCount - withinBars ? e : null;
+}
+
+function evaluateConfluence(opts: ConfluenceOptions, ctx: StrategyContext): SignalResult {
+  const { htf: htfTf, ltf: ltfTf } = opts;
+  const price = ctx.quote.price;
+  if (!(price > 0) || (ctx.quote.quality && ctx.quote.quality !== "ok")) {
+    return hold(price > 0 ? price : 0, emptyFactors(`Data: ${price > 0 ? ctx.quote.quality : "no valid price"} — signal suppressed`));
+  }
+  const htfBars = seriesFor(ctx, htfTf);
+  const ltfBars = seriesFor(ctx, ltfTf);
+  if (htfBars.length < MIN_BARS || ltfBars.length < MIN_BARS) {
+    return hold(price, emptyFactors(`Confluence: not enough history (${htfTf} ${htfBars.length}, ${ltfTf} ${ltfBars.length} bars)`));
+  }
+
+  // ---------- HTF bias ----------
+  const htf = columns(htfBars);
+  const bias = analyzeStructure(htf).trend;
+  const range = htfBars.slice(-opts.rangeBars);
+  const rangeHigh = Math.max(...range.map((c) => c.high));
+  const rangeLow = Math.min(...range.map((c) => c.low));
+  const zone = getFibZone(price, rangeHigh, rangeLow);
+  const zoneOk = (bias === "BULLISH" && zone === "DISCOUNT") || (bias === "BEARISH" && zone === "PREMIUM");
+
+  // ---------- LTF trigger ----------
+  const ltf = columns(ltfBars);
+  const ltfStructure = analyzeStructure(ltf);
+  const trigger = latestBreak(ltfStructure.events, ltfBars.length, opts.triggerWithinBars);
+  const triggerOk = !!bias && trigger?.direction === bias;
+  const surge = detectVolumeSurge(ltf.volume);
+
+  const items: SignalFactor[] = [
+    factor("htfBias", "Bias", "smc", bias ?? "NONE", bias ?? "NEUTRAL", bias ? POINTS.htfBias : 0, htfTf),
+    factor("htfZone", "Fib", "zone", zone, zone === "DISCOUNT" ? "BULLISH" : zone === "PREMIUM" ? "BEARISH" : "NEUTRAL", zoneOk ? POINTS.htfZone : 0, htfTf),
+    factor(
+      "ltfTrigger",
+      trigger?.type ?? "Trigger",
+      "smc",
+      trigger ? trigger.level : null,
+      trigger?.direction ?? "NEUTRAL",
+      triggerOk ? (trigger!.type === "CHoCH" ? POINTS.choch : POINTS.bos) : 0,
+      ltfTf
+    ),
+    factor("ltfVolume", "Vol", "confirmation", surge, "NEUTRAL", surge && triggerOk ? POINTS.volume : 0, ltfTf),
+  ];
+  const score = Math.min(99, items.reduce((a, f) => a + f.points, 0));
+  const aligned = triggerOk && (zoneOk || !opts.requireZone);
+  const why = !bias
+    ? `no ${htfTf} structure yet`
+    : !trigger
+    ? `waiting for ${ltfTf} break`
+    : !triggerOk
+    ? `${ltfTf} ${trigger.type} against ${htfTf} bias`
+    : !aligned
+    ? `price in ${zone.toLowerCase()} of ${htfTf} range`
+    : `${htfTf} ${bias.toLowerCase()} + ${ltfTf} ${trigger.type}`;
+  const factors: SignalFactors = {
+    ...emptyFactors(`Confluence: ${why}`),
+    trendBias: bias ?? "NEUTRAL",
+    smcScore: score,
+    items,
+  };
+  if (!aligned || !bias || !trigger) return hold(price, factors, score);
+
+  // stop beyond the LTF swing that formed before the break, padded by a fraction of LTF ATR
+  const long = bias === "BULLISH";
+  const risk = riskLevels(
+    {
+      side: long ? "long" : "short",
+      entry: price,
+      atr: last(atr(ltf)),
+      swings: ltfStructure.swings.filter((s) => s.confirmedAt <= trigger.index),
+    },
+    { stopMethods: ["swing", "atr"], bufferAtr: 0.1, targetsR: opts.targetsR, fallbackAtrPct: 0.005 }
+  );
+
+  return {
+    signal: long ? "BUY" : "SELL",
+    stoploss: risk.stoploss,
+    targets: risk.targets,
+    confidence: score,
+    explanation: explainFactors(factors),
+    hitStatus: "ACTIVE",
+    entryPrice: price,
+    resolved: false,
+    factors,
+    risk,
+  };
+}
+
+/** A confluence strategy for one HTF/LTF pair; params may override the numeric options. */
+export function createConfluenceStrategy(
+  meta: Pick<Strategy, "id" | "version" | "name" | "description">,
+  htf: Timeframe,
+  ltf: Timeframe
+): Strategy {
+  return {
+    ...meta,
+    timeframes: htf === "1D" ? [ltf] : [htf, ltf],
+    // entries are taken off structure, so exits follow it too
+    exits: { trail: "swing", trailAfter: 1 },
+    evaluate: (ctx) =>
+      evaluateConfluence({ ...DEFAULTS, ...(ctx.params as Partial<ConfluenceOptions> | undefined), htf, ltf }, ctx),
+  };
+}
+
+export const confluenceStrategy = createConfluenceStrategy(
+  {
+    id: "smc-mtf",
+    version: "1.0.0",
+    name: "SMC multi-timeframe",
+    description: "Daily structure and premium/discount for bias, a same-direction 15m CHoCH/BOS to enter.",
+  },
+  "1D",
+  "15m"
+);
+
+export const intradayConfluenceStrategy = createConfluenceStrategy(
+  {
+    id: "smc-mtf-intraday",
+    version: "1.0.0",
+    name: "SMC multi-timeframe (intraday)",
+    description: "4h structure and premium/discount for bias, a same-direction 5m CHoCH/BOS to enter.",
+  },
+  "4h",
+  "5m"
+);
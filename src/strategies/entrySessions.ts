@@ -0,0 +1,103 @@
+// src/strategies/entrySessions.ts
+// When a BUY/SELL may be issued. "open" (the default) allows entries whenever the
+// market is trading, "always" also while it is closed, and a list of killzones
+// limits entries to those windows. Same precedence and storage as the strategy
+// selection: symbol, asset class, default; localStorage in the browser and the
+// ENTRY_SESSIONS env var on the server, e.g. {"default":"open","byAssetClass":{"commodity":["london","newyork"]}}
+import { isKillzoneId, KillzoneId, MarketStatus } from "@/src/market/calendar";
+import type { AssetClass } from "@/src/market/instruments";
+import { explainFactors, factor } from "@/src/utils/signalFactors";
+import type { SignalResult } from "@/src/utils/xaiLogic";
+
+export type EntryWindow = "open" | "always" | KillzoneId[];
+
+export interface EntrySessions {
+  default: EntryWindow;
+  byAssetClass?: Partial<Record<AssetClass, EntryWindow>>;
+  /** Keyed by canonical symbol. */
+  bySymbol?: Record<string, EntryWindow>;
+}
+
+export const DEFAULT_ENTRY_SESSIONS: EntrySessions = { default: "open" };
+
+const STORAGE_KEY = "entrySessions";
+
+export function entryWindowFor(symbol: string, assetClass: AssetClass, sessions: EntrySessions): EntryWindow {
+  return sessions.bySymbol?.[symbol] ?? sessions.byAssetClass?.[assetClass] ?? sessions.default;
+}
+
+export function entryAllowed(status: MarketStatus, window: EntryWindow): boolean {
+  if (window === "always") return true;
+  if (!status.open) return false;
+  return window === "open" || (status.killzone !== null && window.includes(status.killzone));
+}
+
+/** Problems with an entry-session config; empty when it can be used. */
+export function validateEntrySessions(sessions: EntrySessions): string[] {
+  const errors: string[] = [];
+  const check = (where: string, value: unknown) => {
+    if (value === "open" || value === "always") return;
+    if (!Array.isArray(value) || !value.length || !value.every(isKillzoneId)) {
+      errors.push(`${where}: expected "open", "always" or a list of killzones`);
+    }
+  };
+  check("default", sessions?.default);
+  for (const [k, v] of Object.entries(sessions?.byAssetClass ?? {})) check(`byAssetClass.${k}`, v);
+  for (const [k, v] of Object.entries(sessions?.bySymbol ?? {})) check(`bySymbol.${k}`, v);
+  return errors;
+}
+
+function parseEntrySessions(raw: string | null | undefined, source: string): EntrySessions {
+  if (!raw) return DEFAULT_ENTRY_SESSIONS;
+  try {
+    const parsed = JSON.parse(raw) as EntrySessions;
+    const errors = validateEntrySessions(parsed);
+    if (!errors.length) return parsed;
+    console.warn(`Ignoring entry sessions from ${source}:`, errors.join("; "));
+  } catch (err) {
+    console.warn(`Ignoring entry sessions from ${source}`, err);
+  }
+  return DEFAULT_ENTRY_SESSIONS;
+}
+
+export function loadEntrySessions(): EntrySessions {
+  if (typeof window === "undefined") return parseEntrySessions(process.env.ENTRY_SESSIONS, "ENTRY_SESSIONS");
+  try {
+    return parseEntrySessions(localStorage.getItem(STORAGE_KEY), "localStorage");
+  } catch {
+    return DEFAULT_ENTRY_SESSIONS;
+  }
+}
+
+/** Persist a browser-side config. Returns the validation errors (nothing is saved if any). */
+export function saveEntrySessions(sessions: EntrySessions): string[] {
+  const errors = validateEntrySessions(sessions);
+  if (errors.length) return errors;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(sessions));
+  } catch (err) {
+    console.warn("saveEntrySessions failed", err);
+  }
+  return [];
+}
+
+/** Turn a BUY/SELL outside its entry window into a HOLD that says why. */
+export function gateEntry(result: SignalResult, price: number, status: MarketStatus, window: EntryWindow): SignalResult {
+  if ((result.signal !== "BUY" && result.signal !== "SELL") || entryAllowed(status, window)) return result;
+  const where = status.open && Array.isArray(window) ? `outside ${window.join("/")} killzones` : status.label.toLowerCase();
+  const note = `Session: ${result.signal} suppressed, ${where}`;
+  const factors = result.factors && {
+    ...result.factors,
+    note: result.factors.note ? `${note} | ${result.factors.note}` : note,
+    items: [...result.factors.items, factor("session", "Session", "data", status.label)],
+  };
+  return {
+    ...result,
+    signal: "HOLD",
+    stoploss: price,
+    targets: [price],
+    entryPrice: undefined,
+    explanation: factors ? explainFactors(factors) : `${note} | ${result.explanation}`,
+    factors,
+  };
+}
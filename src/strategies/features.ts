@@ -0,0 +1,246 @@
+// src/strategies/features.ts
+// Named values a rule can reference: the indicators from quant/indicators and the
+// SMC detector outputs from xaiLogic, evaluated over closed bars plus a price (the
+// live one for the current frame), the same split generateSMCSignal uses. Values
+// are computed lazily, so a rule only pays for the features it mentions.
+import { getInstrument } from "@/src/market/instruments";
+import { sessionKeys } from "@/src/market/sessions";
+import { ema, indicatorSnapshot, IndicatorSnapshot, last, rsi, sma } from "@/src/quant/indicators";
+import { analyzeStructure } from "@/src/quant/structure";
+import {
+  detectBOS,
+  detectBreakerBlock,
+  detectCHoCH,
+  detectFairValueGap,
+  detectLiquiditySweep,
+  detectMitigationBlock,
+  detectOrderBlock,
+  detectVolumeSurge,
+  generateSMCSignal,
+  getFibZone,
+  getTrendBias,
+} from "@/src/utils/xaiLogic";
+
+export type FeatureType = "number" | "boolean" | "direction" | "bias" | "signal" | "fibZone";
+export type FeatureValue = number | boolean | string | null;
+
+/** Allowed string literals for the enum-like feature types. */
+export const FEATURE_LITERALS: Record<Exclude<FeatureType, "number" | "boolean">, string[]> = {
+  direction: ["BULLISH", "BEARISH", "NONE"],
+  bias: ["BULLISH", "BEARISH", "NEUTRAL"],
+  signal: ["BUY", "SELL", "HOLD"],
+  fibZone: ["PREMIUM", "DISCOUNT", "NEUTRAL"],
+};
+
+/** Closed OHLCV bars, oldest first. */
+export interface FeatureBars {
+  open: number[];
+  high: number[];
+  low: number[];
+  close: number[];
+  volume: number[];
+  time: number[];
+}
+
+interface FrameData {
+  symbol: string;
+  bars: FeatureBars;
+  price: number;
+  previousClose: number;
+  snapshot(): IndicatorSnapshot;
+  smc(): ReturnType<typeof generateSMCSignal>;
+}
+
+interface FeatureDef {
+  type: FeatureType;
+  description: string;
+  compute(f: FrameData): FeatureValue;
+}
+
+const dir = (v: "BULLISH" | "BEARISH" | null) => v ?? "NONE";
+const snap = (key: keyof IndicatorSnapshot, description: string): FeatureDef => ({
+  type: "number",
+  description,
+  compute: (f) => f.snapshot()[key],
+});
+
+const FEATURES: Record<string, FeatureDef> = {
+  // ---------- Price ----------
+  price: { type: "number", description: "Live price (last close for the previous frame)", compute: (f) => f.price },
+  open: { type: "number", description: "Open of the latest closed bar", compute: (f) => f.bars.open[f.bars.open.length - 1] ?? null },
+  high: { type: "number", description: "High of the latest closed bar", compute: (f) => f.bars.high[f.bars.high.length - 1] ?? null },
+  low: { type: "number", description: "Low of the latest closed bar", compute: (f) => f.bars.low[f.bars.low.length - 1] ?? null },
+  volume: { type: "number", description: "Volume of the latest closed bar", compute: (f) => f.bars.volume[f.bars.volume.length - 1] ?? null },
+  changepct: {
+    type: "number",
+    description: "Percent change of price from the previous close",
+    compute: (f) => (f.previousClose ? ((f.price - f.previousClose) / f.previousClose) * 100 : null),
+  },
+
+  // ---------- Indicators ----------
+  macd: snap("macd", "MACD line (12,26)"),
+  macdsignal: snap("macdSignal", "MACD signal line (9)"),
+  macdhist: snap("macdHist", "MACD histogram"),
+  bbupper: snap("bbUpper", "Upper Bollinger band (20,2)"),
+  bblower: snap("bbLower", "Lower Bollinger band (20,2)"),
+  bbwidth: snap("bbWidth", "Bollinger band width / middle"),
+  percentb: snap("percentB", "Bollinger %B (0 = lower band, 1 = upper)"),
+  atr: snap("atr", "Average true range (14)"),
+  vwap: snap("vwap", "Session VWAP"),
+  stochk: snap("stochK", "Stochastic %K (14,3)"),
+  stochd: snap("stochD", "Stochastic %D (3)"),
+  adx: snap("adx", "ADX (14)"),
+  plusdi: snap("plusDI", "+DI (14)"),
+  minusdi: snap("minusDI", "-DI (14)"),
+  obv: snap("obv", "On-balance volume"),
+  obvslope: snap("obvSlope", "OBV change over 10 bars / volume traded"),
+  supertrend: snap("supertrend", "Supertrend line (10,3)"),
+  supertrenddir: snap("supertrendDir", "Supertrend direction (1 up, -1 down)"),
+
+  // ---------- SMC ----------
+  bos: {
+    type: "direction",
+    description: "Recent break of structure",
+    compute: (f) => dir(detectBOS(f.bars.high, f.bars.low, f.bars.close)),
+  },
+  choch: {
+    type: "direction",
+    description: "Recent change of character",
+    compute: (f) => dir(detectCHoCH(f.bars.high, f.bars.low, f.bars.close)),
+  },
+  trend: {
+    type: "direction",
+    description: "Direction of the latest structure break of any age",
+    compute: (f) => dir(analyzeStructure({ high: f.bars.high, low: f.bars.low, close: f.bars.close }).trend),
+  },
+  trendbias: {
+    type: "bias",
+    description: "BOS/CHoCH bias as used by the SMC engine",
+    compute: (f) =>
+      getTrendBias(detectBOS(f.bars.high, f.bars.low, f.bars.close), detectCHoCH(f.bars.high, f.bars.low, f.bars.close)),
+  },
+  orderblock: {
+    type: "direction",
+    description: "Direction of the latest unmitigated order block",
+    compute: (f) => dir(detectOrderBlock(f.bars.close, f.bars.high, f.bars.low)),
+  },
+  fvg: {
+    type: "boolean",
+    description: "Unmitigated fair value gap formed recently",
+    compute: (f) => detectFairValueGap(f.bars.high, f.bars.low, f.bars.close),
+  },
+  volumesurge: {
+    type: "boolean",
+    description: "Volume above 1.5x its 10-bar average",
+    compute: (f) => detectVolumeSurge(f.bars.volume),
+  },
+  liquiditysweep: {
+    type: "direction",
+    description: "Sweep of the recent high/low that closed back inside",
+    compute: (f) => dir(detectLiquiditySweep(f.bars.high, f.bars.low, f.price)),
+  },
+  mitigation: {
+    type: "direction",
+    description: "Mitigation block",
+    compute: (f) => dir(detectMitigationBlock(f.bars.close)),
+  },
+  breaker: {
+    type: "direction",
+    description: "Breaker block",
+    compute: (f) => dir(detectBreakerBlock(f.bars.close)),
+  },
+  fibzone: {
+    type: "fibZone",
+    description: "Premium/discount half of the 50-bar range",
+    compute: (f) => {
+      const highs = f.bars.high.slice(-50);
+      const lows = f.bars.low.slice(-50);
+      return highs.length ? getFibZone(f.price, Math.max(...highs), Math.min(...lows)) : "NEUTRAL";
+    },
+  },
+  smcsignal: { type: "signal", description: "Signal of the built-in SMC engine", compute: (f) => f.smc().signal },
+  smcconfidence: { type: "number", description: "Confidence of the built-in SMC engine", compute: (f) => f.smc().confidence },
+};
+
+// rsi14, sma20, ema200, ...
+const PARAMETRIC: Record<string, { description: string; compute(closes: number[], period: number): FeatureValue }> = {
+  rsi: { description: "Wilder RSI over N bars", compute: (c, n) => last(rsi(c, n)) },
+  sma: { description: "Simple moving average over N bars", compute: (c, n) => last(sma(c, n)) },
+  ema: { description: "Exponential moving average over N bars", compute: (c, n) => last(ema(c, n)) },
+};
+const PARAMETRIC_RE = /^(rsi|sma|ema)(\d{1,3})$/;
+
+/** Type of a feature name (case-insensitive), or null when unknown. */
+export function featureType(name: string): FeatureType | null {
+  const key = name.toLowerCase();
+  if (FEATURES[key]) return FEATURES[key].type;
+  const m = PARAMETRIC_RE.exec(key);
+  return m && Number(m[2]) >= 1 ? "number" : null;
+}
+
+/** Everything a rule can reference, for editors and the /api/strategies catalog. */
+export function featureCatalog(): { name: string; type: FeatureType; description: string }[] {
+  return [
+    ...Object.entries(FEATURES).map(([name, d]) => ({ name, type: d.type, description: d.description })),
+    ...Object.entries(PARAMETRIC).map(([name, d]) => ({ name: `${name}<N>`, type: "number" as const, description: d.description })),
+  ];
+}
+
+export interface FeatureFrame {
+  get(name: string): FeatureValue;
+}
+
+/**
+ * Features as of the end of `bars`. Without a quote, price is the last close and the
+ * previous close the one before it, which is how the prior frame for cross-overs is built.
+ */
+export function featureFrame(symbol: string, bars: FeatureBars, quote?: { price: number; previousClose: number }): FeatureFrame {
+  const n = bars.close.length;
+  const price = quote?.price ?? bars.close[n - 1];
+  const previousClose = quote?.previousClose ?? bars.close[n - 2] ?? price;
+  const cache = new Map<string, FeatureValue>();
+  let snapshot: IndicatorSnapshot | null = null;
+  let smc: ReturnType<typeof generateSMCSignal> | null = null;
+
+  const data: FrameData = {
+    symbol,
+    bars,
+    price,
+    previousClose,
+    // session keys as generateSMCSignal passes them, so vwap restarts each trading day
+    snapshot: () => {
+      const hours = getInstrument(symbol)?.hours;
+      return (snapshot ??= indicatorSnapshot(bars, {}, hours && bars.time.length ? sessionKeys(bars.time, hours) : undefined));
+    },
+    smc: () =>
+      (smc ??= generateSMCSignal({
+        symbol,
+        current: price,
+        previousClose,
+        history: {
+          prices: bars.close,
+          opens: bars.open,
+          highs: bars.high,
+          lows: bars.low,
+          volumes: bars.volume,
+          times: bars.time,
+        },
+      })),
+  };
+
+  function get(name: string): FeatureValue {
+    const key = name.toLowerCase();
+    if (cache.has(key)) return cache.get(key)!;
+    let value: FeatureValue = null;
+    if (FEATURES[key]) {
+      value = n ? FEATURES[key].compute(data) : null;
+    } else {
+      const m = PARAMETRIC_RE.exec(key);
+      if (m) value = PARAMETRIC[m[1]].compute(bars.close, Number(m[2]));
+    }
+    cache.set(key, value);
+    return value;
+  }
+
+  return { get };
+}
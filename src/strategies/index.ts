@@ -0,0 +1,64 @@
+// src/strategies/index.ts
+// Public entry point: registers the built-in strategies and any saved rule strategies,
+// and runs whichever one the selection picks for a symbol.
+import { marketStatus } from "@/src/market/calendar";
+import { confluenceStrategy, intradayConfluenceStrategy } from "./confluence";
+import { EntrySessions, entryWindowFor, gateEntry, loadEntrySessions } from "./entrySessions";
+import { meanReversionStrategy } from "./meanReversion";
+import { getStrategy, parseStrategyRef, registerStrategy } from "./registry";
+import { compileRuleStrategy, loadRuleDefinitions } from "./rules";
+import { DEFAULT_STRATEGY_SELECTION, loadStrategySelection, StrategySelection, strategyRefFor } from "./selection";
+import { smcStrategy } from "./smc";
+import type { Timeframe } from "@/src/market/types";
+import type { Strategy, StrategyContext, StrategySignal } from "./types";
+
+export * from "./types";
+export * from "./registry";
+export * from "./selection";
+export * from "./rules";
+export * from "./entrySessions";
+export { featureCatalog } from "./features";
+export { createConfluenceStrategy } from "./confluence";
+
+registerStrategy(smcStrategy);
+registerStrategy(meanReversionStrategy);
+registerStrategy(confluenceStrategy);
+registerStrategy(intradayConfluenceStrategy);
+for (const def of loadRuleDefinitions()) {
+  const strategy = compileRuleStrategy(def);
+  if (strategy) registerStrategy(strategy);
+}
+
+/** Strategy for a symbol under `selection`, falling back to the default SMC engine. */
+export function resolveStrategy(symbol: string, assetClass: StrategyContext["assetClass"], selection: StrategySelection): Strategy {
+  const ref = strategyRefFor(symbol, assetClass, selection);
+  const { id, version } = parseStrategyRef(ref);
+  const strategy = getStrategy(id, version);
+  if (strategy) return strategy;
+  console.warn(`Unknown strategy ${ref} for ${symbol}; using ${DEFAULT_STRATEGY_SELECTION.default}`);
+  return getStrategy(DEFAULT_STRATEGY_SELECTION.default)!;
+}
+
+/**
+ * Evaluate the selected strategy, hold back entries outside the symbol's entry
+ * window, and stamp the result with the strategy and the session it ran in.
+ */
+export function runStrategy(
+  ctx: StrategyContext,
+  selection: StrategySelection = loadStrategySelection(),
+  sessions: EntrySessions = loadEntrySessions()
+): StrategySignal {
+  const strategy = resolveStrategy(ctx.symbol, ctx.assetClass, selection);
+  const status = marketStatus(ctx.symbol, ctx.time ?? Date.now());
+  const result = gateEntry(strategy.evaluate(ctx), ctx.quote.price, status, entryWindowFor(ctx.symbol, ctx.assetClass, sessions));
+  return { ...result, strategy: { id: strategy.id, version: strategy.version }, session: status.label };
+}
+
+/** Series beyond the daily candles the selected strategy needs for `symbol`. */
+export function strategyTimeframes(
+  symbol: string,
+  assetClass: StrategyContext["assetClass"],
+  selection: StrategySelection = loadStrategySelection()
+): Timeframe[] {
+  return resolveStrategy(symbol, assetClass, selection).timeframes ?? [];
+}
@@ -0,0 +1,82 @@
+// src/strategies/meanReversion.ts
+// Fade closes outside the Bollinger band when RSI agrees the move is stretched.
+// Targets are the middle band and the opposite band; the stop sits 1.5 ATR beyond
+// the entry. Params: period, stdDevs, rsiPeriod, oversold, overbought.
+import { atr, bollinger, last, rsi } from "@/src/quant/indicators";
+import { measureLevels, riskLevels } from "@/src/quant/riskLevels";
+import { emptyFactors, explainFactors, factor, SignalFactors } from "@/src/utils/signalFactors";
+import type { SignalResult } from "@/src/utils/xaiLogic";
+import type { Strategy } from "./types";
+
+const DEFAULTS = { period: 20, stdDevs: 2, rsiPeriod: 14, oversold: 30, overbought: 70 };
+
+function hold(price: number, factors: SignalFactors, confidence = 0): SignalResult {
+  return { signal: "HOLD", stoploss: price, targets: [price], confidence, explanation: explainFactors(factors), hitStatus: "ACTIVE", factors };
+}
+
+export const meanReversionStrategy: Strategy = {
+  id: "mean-reversion",
+  version: "1.0.0",
+  name: "Bollinger mean reversion",
+  description: "Buys closes below the lower band with RSI oversold, sells closes above the upper band with RSI overbought.",
+  evaluate(ctx) {
+    const p = { ...DEFAULTS, ...(ctx.params as Partial<typeof DEFAULTS> | undefined) };
+    const price = ctx.quote.price;
+    if (!(price > 0) || (ctx.quote.quality && ctx.quote.quality !== "ok")) {
+      return hold(price > 0 ? price : 0, emptyFactors(`Data: ${price > 0 ? ctx.quote.quality : "no valid price"} — signal suppressed`));
+    }
+
+    // the live price stands in for the still-forming bar
+    const closes = [...ctx.candles.map((c) => c.close), price];
+    const bars = {
+      high: [...ctx.candles.map((c) => c.high), Math.max(price, ctx.quote.high ?? price)],
+      low: [...ctx.candles.map((c) => c.low), Math.min(price, ctx.quote.low ?? price)],
+      close: closes,
+      volume: [...ctx.candles.map((c) => c.volume), 0],
+    };
+    const bb = bollinger(closes, p.period, p.stdDevs);
+    const upper = last(bb.upper);
+    const lower = last(bb.lower);
+    const middle = last(bb.middle);
+    const r = last(rsi(closes, p.rsiPeriod));
+    const range = last(atr(bars)) ?? price * 0.01;
+    if (upper === null || lower === null || middle === null || r === null) {
+      return hold(price, emptyFactors(`MeanReversion: not enough history (${ctx.candles.length} bars)`));
+    }
+
+    const buy = price < lower && r < p.oversold;
+    const sell = price > upper && r > p.overbought;
+    const bias = buy ? "BULLISH" : sell ? "BEARISH" : "NEUTRAL";
+    const factors: SignalFactors = {
+      ...emptyFactors(`MeanReversion: ${buy ? "BUY below lower band" : sell ? "SELL above upper band" : "inside band"}`),
+      trendBias: bias,
+      indicatorBias: bias,
+      rsi: r,
+      items: [
+        factor("price", "Price", "indicator", price, price < lower ? "BULLISH" : price > upper ? "BEARISH" : "NEUTRAL"),
+        factor("bbLower", "BBL", "indicator", lower),
+        factor("bbMiddle", "BBM", "indicator", middle),
+        factor("bbUpper", "BBU", "indicator", upper),
+        factor("rsi", "RSI", "indicator", r, r < p.oversold ? "BULLISH" : r > p.overbought ? "BEARISH" : "NEUTRAL"),
+      ],
+    };
+    if (buy || sell) {
+      const side = buy ? "long" : "short";
+      const { stoploss } = riskLevels({ side, entry: price, atr: range }, { stopMethods: ["atr"], atrMultiple: 1.5 });
+      const risk = measureLevels(side, price, stoploss, buy ? [middle, upper] : [middle, lower], "atr");
+      return {
+        signal: buy ? "BUY" : "SELL",
+        stoploss,
+        targets: risk.targets,
+        confidence: Math.min(100, 60 + (buy ? p.oversold - r : r - p.overbought) * 2),
+        explanation: explainFactors(factors),
+        hitStatus: "ACTIVE",
+        entryPrice: price,
+        resolved: false,
+        factors,
+        risk,
+      };
+    }
+    return hold(price, factors, 50);
+  },
+};
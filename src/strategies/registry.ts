@@ -0,0 +1,46 @@
+// src/strategies/registry.ts
+// In-process registry of strategies keyed by id and version. Several versions of
+// one id can coexist so stored predictions stay attributable after a strategy changes.
+import type { Strategy, StrategyRef } from "./types";
+
+const registry = new Map<string, Strategy[]>();
+
+function compareVersions(a: string, b: string) {
+  const pa = a.split(".").map((n) => Number(n) || 0);
+  const pb = b.split(".").map((n) => Number(n) || 0);
+  for (let i = 0; i < Math.max(pa.length, pb.length); i++) {
+    const d = (pa[i] ?? 0) - (pb[i] ?? 0);
+    if (d) return d;
+  }
+  return 0;
+}
+
+/** Register (or replace) a strategy version. */
+export function registerStrategy(strategy: Strategy): void {
+  const versions = (registry.get(strategy.id) ?? []).filter((s) => s.version !== strategy.version);
+  versions.push(strategy);
+  versions.sort((a, b) => compareVersions(a.version, b.version));
+  registry.set(strategy.id, versions);
+}
+
+/** Exact version when given, otherwise the latest registered one. */
+export function getStrategy(id: string, version?: string): Strategy | null {
+  const versions = registry.get(id);
+  if (!versions?.length) return null;
+  if (!version) return versions[versions.length - 1];
+  return versions.find((s) => s.version === version) ?? null;
+}
+
+export function listStrategies(): Strategy[] {
+  return [...registry.values()].flat();
+}
+
+/** "smc" or "smc@1.0.0" */
+export function parseStrategyRef(value: string): { id: string; version?: string } {
+  const [id, version] = value.trim().split("@");
+  return version ? { id, version } : { id };
+}
+
+export function formatStrategyRef(ref: StrategyRef): string {
+  return `${ref.id}@${ref.version}`;
+}
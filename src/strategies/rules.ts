@@ -0,0 +1,393 @@
+// src/strategies/rules.ts
+// JSON rule language for analyst-written strategies. A definition names buy and/or
+// sell conditions over the features in ./features, e.g.
+//
+//   { "all": [ { "left": "rsi14", "op": "<", "right": 35 },
+//              { "left": "bos", "op": "==", "right": "BULLISH" },
+//              { "feature": "volumeSurge" } ] }
+//
+// Definitions are validated before they are saved or compiled; a compiled definition
+// is an ordinary Strategy and runs through the same registry and selection.
+import type { AssetClass } from "@/src/market/instruments";
+import { riskLevels } from "@/src/quant/riskLevels";
+import { analyzeStructure } from "@/src/quant/structure";
+import { emptyFactors, explainFactors, factor, SignalFactors } from "@/src/utils/signalFactors";
+import type { SignalResult } from "@/src/utils/xaiLogic";
+import { FEATURE_LITERALS, FeatureBars, FeatureFrame, featureFrame, FeatureType, featureType, FeatureValue } from "./features";
+import { listStrategies, registerStrategy } from "./registry";
+import type { Strategy, StrategyContext } from "./types";
+
+export type CompareOp = "<" | "<=" | ">" | ">=" | "==" | "!=";
+export type CrossOp = "crossesAbove" | "crossesBelow";
+export type RuleOperand = number | string | boolean | { feature: string };
+
+export type RuleCondition =
+  | { all: RuleCondition[] }
+  | { any: RuleCondition[] }
+  | { not: RuleCondition }
+  /** A boolean feature is true. */
+  | { feature: string }
+  | { left: string; op: CompareOp | CrossOp; right: RuleOperand };
+
+export interface RuleStrategyDefinition {
+  id: string;
+  version: string;
+  name: string;
+  description?: string;
+  assetClasses?: AssetClass[];
+  buy?: RuleCondition;
+  sell?: RuleCondition;
+  /**
+   * Stop at `stopAtr` ATRs (default 1.5) or, with stop "swing", beyond the last swing;
+   * targets at `targetsR` multiples of that risk (default [1, 2, 3]) or, with targets
+   * "liquidity", at the untaken swings on the other side.
+   */
+  risk?: { stopAtr?: number; targetsR?: number[]; stop?: "atr" | "swing"; targets?: "r" | "liquidity" };
+  /** Confidence reported when a side fires (default 70). */
+  confidence?: number;
+}
+
+const COMPARE_OPS: CompareOp[] = ["<", "<=", ">", ">=", "==", "!="];
+const CROSS_OPS: CrossOp[] = ["crossesAbove", "crossesBelow"];
+const ASSET_CLASSES: AssetClass[] = ["index", "stock", "crypto", "commodity"];
+const MAX_DEPTH = 12;
+const DEFAULT_RISK: Required<NonNullable<RuleStrategyDefinition["risk"]>> = { stopAtr: 1.5, targetsR: [1, 2, 3], stop: "atr", targets: "r" };
+const DEFAULT_CONFIDENCE = 70;
+
+// strategies compiled from definitions, so validation can tell them from built-ins
+const compiled = new WeakSet<Strategy>();
+
+// ---------- Validation ----------
+
+const isObject = (v: unknown): v is Record<string, unknown> => typeof v === "object" && v !== null && !Array.isArray(v);
+
+function operandType(right: unknown): FeatureType | "string" | "invalid" {
+  if (typeof right === "number") return Number.isFinite(right) ? "number" : "invalid";
+  if (typeof right === "boolean") return "boolean";
+  if (typeof right === "string") return "string";
+  if (isObject(right) && typeof right.feature === "string") return featureType(right.feature) ?? "invalid";
+  return "invalid";
+}
+
+function validateCondition(cond: unknown, path: string, depth: number, errors: string[]) {
+  if (depth > MAX_DEPTH) {
+    errors.push(`${path}: nested deeper than ${MAX_DEPTH} levels`);
+    return;
+  }
+  if (!isObject(cond)) {
+    errors.push(`${path}: expected a condition object`);
+    return;
+  }
+
+  if ("all" in cond || "any" in cond) {
+    const key = "all" in cond ? "all" : "any";
+    const list = cond[key];
+    if (!Array.isArray(list) || !list.length) {
+      errors.push(`${path}.${key}: expected a non-empty array`);
+      return;
+    }
+    list.forEach((c, i) => validateCondition(c, `${path}.${key}[${i}]`, depth + 1, errors));
+    return;
+  }
+  if ("not" in cond) {
+    validateCondition(cond.not, `${path}.not`, depth + 1, errors);
+    return;
+  }
+  if ("feature" in cond && !("op" in cond)) {
+    const type = typeof cond.feature === "string" ? featureType(cond.feature) : null;
+    if (!type) errors.push(`${path}.feature: unknown feature ${String(cond.feature)}`);
+    else if (type !== "boolean") errors.push(`${path}.feature: ${cond.feature} is ${type}, compare it with "op"`);
+    return;
+  }
+
+  const { left, op, right } = cond as { left?: unknown; op?: unknown; right?: unknown };
+  const leftType = typeof left === "string" ? featureType(left) : null;
+  if (!leftType) {
+    errors.push(`${path}.left: unknown feature ${String(left)}`);
+    return;
+  }
+  const rightType = operandType(right);
+  if (rightType === "invalid") {
+    errors.push(`${path}.right: expected a number, boolean, string or { feature }`);
+    return;
+  }
+
+  if (CROSS_OPS.includes(op as CrossOp)) {
+    if (leftType !== "number" || rightType !== "number") errors.push(`${path}: ${op} needs numeric operands`);
+    return;
+  }
+  if (!COMPARE_OPS.includes(op as CompareOp)) {
+    errors.push(`${path}.op: expected one of ${[...COMPARE_OPS, ...CROSS_OPS].join(" ")}`);
+    return;
+  }
+  if (leftType === "number") {
+    if (rightType !== "number") errors.push(`${path}.right: ${left} is numeric`);
+    return;
+  }
+  if (op !== "==" && op !== "!=") {
+    errors.push(`${path}.op: ${left} is ${leftType}, only == and != apply`);
+    return;
+  }
+  if (leftType === "boolean") {
+    if (rightType !== "boolean") errors.push(`${path}.right: ${left} is boolean`);
+    return;
+  }
+  const allowed = FEATURE_LITERALS[leftType];
+  if (rightType === "string") {
+    if (!allowed.includes((right as string).toUpperCase())) errors.push(`${path}.right: expected one of ${allowed.join(", ")}`);
+  } else if (rightType !== leftType) {
+    errors.push(`${path}.right: ${left} is ${leftType}, not ${rightType}`);
+  }
+}
+
+/** Problems with a definition; empty when it can be saved and compiled. */
+export function validateRuleDefinition(def: unknown): string[] {
+  const errors: string[] = [];
+  if (!isObject(def)) return ["definition must be an object"];
+
+  if (typeof def.id !== "string" || !/^[a-z0-9][a-z0-9_-]{0,39}$/.test(def.id)) {
+    errors.push("id: lowercase letters, digits, - and _ (max 40)");
+  }
+  if (typeof def.version !== "string" || !/^\d+(\.\d+){0,2}$/.test(def.version)) {
+    errors.push('version: expected "major[.minor[.patch]]"');
+  }
+  if (typeof def.name !== "string" || !def.name.trim()) errors.push("name: required");
+  // any version counts: a higher one would become the latest and replace the built-in for everyone selecting it
+  if (typeof def.id === "string" && listStrategies().some((st) => st.id === def.id && !compiled.has(st))) {
+    errors.push(`id: ${def.id} is a built-in strategy`);
+  }
+  if (def.assetClasses !== undefined) {
+    if (!Array.isArray(def.assetClasses) || def.assetClasses.some((a) => !ASSET_CLASSES.includes(a))) {
+      errors.push(`assetClasses: expected any of ${ASSET_CLASSES.join(", ")}`);
+    }
+  }
+
+  if (def.buy === undefined && def.sell === undefined) errors.push("needs a buy and/or sell condition");
+  if (def.buy !== undefined) validateCondition(def.buy, "buy", 0, errors);
+  if (def.sell !== undefined) validateCondition(def.sell, "sell", 0, errors);
+
+  if (def.risk !== undefined) {
+    const risk = def.risk as Record<string, unknown>;
+    if (!isObject(risk)) errors.push("risk: expected an object");
+    else {
+      if (risk.stopAtr !== undefined && !(typeof risk.stopAtr === "number" && risk.stopAtr > 0)) {
+        errors.push("risk.stopAtr: expected a positive number");
+      }
+      const t = risk.targetsR;
+      if (t !== undefined && (!Array.isArray(t) || !t.length || t.some((r, i) => !(typeof r === "number" && r > 0 && (i === 0 || r > t[i - 1]))))) {
+        errors.push("risk.targetsR: expected ascending positive numbers");
+      }
+      if (risk.stop !== undefined && risk.stop !== "atr" && risk.stop !== "swing") errors.push('risk.stop: expected "atr" or "swing"');
+      if (risk.targets !== undefined && risk.targets !== "r" && risk.targets !== "liquidity") {
+        errors.push('risk.targets: expected "r" or "liquidity"');
+      }
+    }
+  }
+  if (def.confidence !== undefined && !(typeof def.confidence === "number" && def.confidence >= 0 && def.confidence <= 100)) {
+    errors.push("confidence: expected 0..100");
+  }
+  return errors;
+}
+
+// ---------- Evaluation ----------
+
+const fmt = (v: FeatureValue) => (typeof v === "number" ? String(Number(v.toFixed(2))) : String(v));
+
+/** One evaluated leaf condition. */
+export interface RuleTraceEntry {
+  feature: string;
+  /** The condition as written, e.g. "rsi14 < 35". */
+  label: string;
+  value: FeatureValue;
+  ok: boolean;
+}
+
+function operandValue(right: RuleOperand, frame: FeatureFrame): FeatureValue {
+  if (isObject(right)) return frame.get(right.feature);
+  return typeof right === "string" ? right.toUpperCase() : right;
+}
+
+/** Evaluate against the current frame (and the previous bar's, for cross-overs). Leaf results go to `trace`. */
+export function evaluateCondition(cond: RuleCondition, now: FeatureFrame, prev: FeatureFrame, trace: RuleTraceEntry[] = []): boolean {
+  if ("all" in cond) return cond.all.every((c) => evaluateCondition(c, now, prev, trace));
+  if ("any" in cond) return cond.any.some((c) => evaluateCondition(c, now, prev, trace));
+  if ("not" in cond) {
+    const inner: RuleTraceEntry[] = [];
+    const ok = !evaluateCondition(cond.not, now, prev, inner);
+    trace.push(...inner.map((e) => ({ ...e, label: `not ${e.label}` })));
+    return ok;
+  }
+  if (!("op" in cond)) {
+    const value = now.get(cond.feature);
+    trace.push({ feature: cond.feature, label: cond.feature, value, ok: value === true });
+    return value === true;
+  }
+
+  const l = now.get(cond.left);
+  const r = operandValue(cond.right, now);
+  let ok = false;
+  if (l !== null && r !== null) {
+    switch (cond.op) {
+      // validation guarantees both sides are numbers for these
+      case "<": ok = (l as number) < (r as number); break;
+      case "<=": ok = (l as number) <= (r as number); break;
+      case ">": ok = (l as number) > (r as number); break;
+      case ">=": ok = (l as number) >= (r as number); break;
+      case "==": ok = l === r; break;
+      case "!=": ok = l !== r; break;
+      case "crossesAbove":
+      case "crossesBelow": {
+        const pl = prev.get(cond.left);
+        const pr = operandValue(cond.right, prev);
+        if (pl === null || pr === null) break;
+        const [a, b, pa, pb] = [l, r, pl, pr] as number[];
+        ok = cond.op === "crossesAbove" ? pa <= pb && a > b : pa >= pb && a < b;
+        break;
+      }
+    }
+  }
+  trace.push({ feature: cond.left, label: `${cond.left} ${cond.op} ${fmt(r)}`, value: l, ok });
+  return ok;
+}
+
+function barsOf(candles: StrategyContext["candles"]): FeatureBars {
+  return {
+    open: candles.map((c) => c.open),
+    high: candles.map((c) => c.high),
+    low: candles.map((c) => c.low),
+    close: candles.map((c) => c.close),
+    volume: candles.map((c) => c.volume),
+    time: candles.map((c) => c.time),
+  };
+}
+
+function evaluateDefinition(def: RuleStrategyDefinition, ctx: StrategyContext): SignalResult {
+  const price = ctx.quote.price;
+  const hold = (factors: SignalFactors, confidence = 0): SignalResult => ({
+    signal: "HOLD",
+    stoploss: price > 0 ? price : 0,
+    targets: [price > 0 ? price : 0],
+    confidence,
+    explanation: explainFactors(factors),
+    hitStatus: "ACTIVE",
+    factors,
+  });
+  if (!(price > 0) || (ctx.quote.quality && ctx.quote.quality !== "ok")) {
+    return hold(emptyFactors(`Data: ${price > 0 ? ctx.quote.quality : "no valid price"} — signal suppressed`));
+  }
+
+  const bars = barsOf(ctx.candles);
+  const now = featureFrame(ctx.symbol, bars, { price, previousClose: ctx.quote.previousClose });
+  // One step back from `now`: indicators through the bar before the last closed one,
+  // and the last closed close as the price, since `now` prices off the live quote.
+  // Pricing prev off the bar before would skip that close and let a cross fire twice.
+  const n = bars.close.length;
+  const prev = featureFrame(
+    ctx.symbol,
+    barsOf(ctx.candles.slice(0, -1)),
+    n ? { price: bars.close[n - 1], previousClose: bars.close[n - 2] ?? bars.close[n - 1] } : undefined
+  );
+
+  const buyTrace: RuleTraceEntry[] = [];
+  const sellTrace: RuleTraceEntry[] = [];
+  const buy = def.buy ? evaluateCondition(def.buy, now, prev, buyTrace) : false;
+  const sell = def.sell ? evaluateCondition(def.sell, now, prev, sellTrace) : false;
+
+  // each leaf is a factor; the ones that held point the way their side trades
+  const rsi14 = now.get("rsi14");
+  const factors: SignalFactors = {
+    ...emptyFactors(),
+    trendBias: buy !== sell ? (buy ? "BULLISH" : "BEARISH") : "NEUTRAL",
+    rsi: typeof rsi14 === "number" ? rsi14 : null,
+    items: [
+      ...buyTrace.map((e) => factor(`buy.${e.feature}`, `buy ${e.label}${e.ok ? " ✓" : " ✗"}`, "rule", e.value, e.ok ? "BULLISH" : "NEUTRAL")),
+      ...sellTrace.map((e) => factor(`sell.${e.feature}`, `sell ${e.label}${e.ok ? " ✓" : " ✗"}`, "rule", e.value, e.ok ? "BEARISH" : "NEUTRAL")),
+    ],
+  };
+
+  if (buy === sell) {
+    factors.note = `Rules(${def.id}): ${buy ? "buy and sell both matched" : "no match"}`;
+    return hold(factors, buy ? 0 : 50);
+  }
+  factors.note = `Rules(${def.id}): ${buy ? "BUY" : "SELL"}`;
+
+  const { stopAtr, targetsR, stop, targets } = { ...DEFAULT_RISK, ...def.risk };
+  const atr = now.get("atr");
+  const swings = stop === "swing" || targets === "liquidity" ? analyzeStructure(bars).swings : [];
+  const risk = riskLevels(
+    { side: buy ? "long" : "short", entry: price, atr: typeof atr === "number" ? atr : null, swings },
+    { stopMethods: stop === "swing" ? ["swing", "atr"] : ["atr"], atrMultiple: stopAtr, targetsR, targetMethod: targets }
+  );
+  return {
+    signal: buy ? "BUY" : "SELL",
+    stoploss: risk.stoploss,
+    targets: risk.targets,
+    confidence: def.confidence ?? DEFAULT_CONFIDENCE,
+    explanation: explainFactors(factors),
+    hitStatus: "ACTIVE",
+    entryPrice: price,
+    resolved: false,
+    factors,
+    risk,
+  };
+}
+
+/** Turn a definition into a Strategy, or null (with a warning) when it doesn't validate. */
+export function compileRuleStrategy(def: RuleStrategyDefinition): Strategy | null {
+  const errors = validateRuleDefinition(def);
+  if (errors.length) {
+    console.warn(`Rule strategy ${def?.id ?? "?"} rejected:`, errors.join("; "));
+    return null;
+  }
+  const strategy: Strategy = {
+    id: def.id,
+    version: def.version,
+    name: def.name,
+    description: def.description ?? "Custom rule strategy",
+    assetClasses: def.assetClasses,
+    evaluate: (ctx) => evaluateDefinition(def, ctx),
+  };
+  compiled.add(strategy);
+  return strategy;
+}
+
+// ---------- Storage ----------
+// Browser: saved definitions in localStorage, edited on /settings. Server: STRATEGY_RULES env var with a
+// JSON array of definitions.
+
+const STORAGE_KEY = "ruleStrategies";
+
+export function loadRuleDefinitions(): RuleStrategyDefinition[] {
+  let raw: string | null | undefined;
+  try {
+    raw = typeof window === "undefined" ? process.env.STRATEGY_RULES : localStorage.getItem(STORAGE_KEY);
+  } catch {
+    return [];
+  }
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (err) {
+    console.warn("Ignoring unparsable rule strategies", err);
+    return [];
+  }
+}
+
+/**
+ * Validate and store a definition (replacing the same id + version), and register it
+ * so it can be selected straight away. Returns the validation errors; nothing is saved if any.
+ */
+export function saveRuleDefinition(def: RuleStrategyDefinition): string[] {
+  const errors = validateRuleDefinition(def);
+  if (errors.length) return errors;
+  const all = loadRuleDefinitions().filter((d) => !(d.id === def.id && d.version === def.version));
+  all.push(def);
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(all));
+  } catch (err) {
+    console.warn("saveRuleDefinition failed", err);
+  }
+  registerStrategy(compileRuleStrategy(def)!);
+  return [];
+}
@@ -0,0 +1,74 @@
+// src/strategies/selection.ts
+// Which strategy runs for which symbol. Precedence: symbol, then asset class, then
+// the default. Values are "id" (latest version) or "id@version" (pinned).
+//
+// Browser: saved per device in localStorage, picked on /settings. Server: STRATEGY_SELECTION env var
+// holding the same JSON, e.g. {"default":"smc","byAssetClass":{"crypto":"mean-reversion"}}
+import type { AssetClass } from "@/src/market/instruments";
+import { getStrategy, parseStrategyRef } from "./registry";
+
+export interface StrategySelection {
+  default: string;
+  byAssetClass?: Partial<Record<AssetClass, string>>;
+  /** Keyed by canonical symbol. */
+  bySymbol?: Record<string, string>;
+}
+
+export const DEFAULT_STRATEGY_SELECTION: StrategySelection = { default: "smc" };
+
+const STORAGE_KEY = "strategySelection";
+
+export function strategyRefFor(symbol: string, assetClass: AssetClass, selection: StrategySelection): string {
+  return selection.bySymbol?.[symbol] ?? selection.byAssetClass?.[assetClass] ?? selection.default;
+}
+
+/** Problems with a selection; empty when every entry names a registered strategy. */
+export function validateSelection(selection: StrategySelection): string[] {
+  const errors: string[] = [];
+  const check = (where: string, value: unknown) => {
+    if (typeof value !== "string" || !value.trim()) {
+      errors.push(`${where}: expected a strategy id`);
+      return;
+    }
+    const { id, version } = parseStrategyRef(value);
+    if (!getStrategy(id, version)) errors.push(`${where}: unknown strategy ${value}`);
+  };
+  check("default", selection?.default);
+  for (const [k, v] of Object.entries(selection?.byAssetClass ?? {})) check(`byAssetClass.${k}`, v);
+  for (const [k, v] of Object.entries(selection?.bySymbol ?? {})) check(`bySymbol.${k}`, v);
+  return errors;
+}
+
+function parseSelection(raw: string | null | undefined, source: string): StrategySelection {
+  if (!raw) return DEFAULT_STRATEGY_SELECTION;
+  try {
+    const parsed = JSON.parse(raw) as StrategySelection;
+    const errors = validateSelection(parsed);
+    if (!errors.length) return parsed;
+    console.warn(`Ignoring strategy selection from ${source}:`, errors.join("; "));
+  } catch (err) {
+    console.warn(`Ignoring strategy selection from ${source}`, err);
+  }
+  return DEFAULT_STRATEGY_SELECTION;
+}
+
+export function loadStrategySelection(): StrategySelection {
+  if (typeof window === "undefined") return parseSelection(process.env.STRATEGY_SELECTION, "STRATEGY_SELECTION");
+  try {
+    return parseSelection(localStorage.getItem(STORAGE_KEY), "localStorage");
+  } catch {
+    return DEFAULT_STRATEGY_SELECTION;
+  }
+}
+
+/** Persist a browser-side selection. Returns the validation errors (nothing is saved if any). */
+export function saveStrategySelection(selection: StrategySelection): string[] {
+  const errors = validateSelection(selection);
+  if (errors.length) return errors;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(selection));
+  } catch (err) {
+    console.warn("saveStrategySelection failed", err);
+  }
+  return [];
+}
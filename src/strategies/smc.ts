@@ -0,0 +1,40 @@
+// src/strategies/smc.ts
+// The original SMC + indicator confluence engine behind the Strategy interface.
+// Params: indicatorParams (partial IndicatorParams), weightProfile ("id" or "id@version").
+import type { IndicatorParams } from "@/src/quant/indicators";
+import { getWeightProfile } from "@/src/quant/weightProfiles";
+import { generateSMCSignal } from "@/src/utils/xaiLogic";
+import type { Strategy } from "./types";
+
+export const smcStrategy: Strategy = {
+  id: "smc",
+  version: "1.0.0",
+  name: "Smart Money Concepts",
+  description: "Structure breaks, order blocks and FVGs scored with RSI/EMA and indicator confirmations.",
+  evaluate(ctx) {
+    const { quote, candles } = ctx;
+    const profileRef = ctx.params?.weightProfile;
+    return generateSMCSignal({
+      symbol: ctx.symbol,
+      current: quote.price,
+      previousClose: quote.previousClose,
+      ohlc: {
+        open: quote.open ?? quote.previousClose,
+        high: quote.high ?? quote.price,
+        low: quote.low ?? quote.price,
+        close: quote.price,
+      },
+      history: {
+        prices: candles.map((c) => c.close),
+        opens: candles.map((c) => c.open),
+        highs: candles.map((c) => c.high),
+        lows: candles.map((c) => c.low),
+        volumes: candles.map((c) => c.volume),
+        times: candles.map((c) => c.time),
+      },
+      quality: quote.quality,
+      indicatorParams: ctx.params?.indicatorParams as Partial<IndicatorParams> | undefined,
+      weightProfile: typeof profileRef === "string" ? getWeightProfile(profileRef) ?? undefined : undefined,
+    });
+  },
+};
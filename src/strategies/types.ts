@@ -0,0 +1,57 @@
+// src/strategies/types.ts
+// Contract between the pages / predict route and whatever produces a signal. A
+// strategy sees normalized candles plus the latest quote and returns the same
+// SignalResult shape the SMC engine always has, so callers don't care which one ran.
+import type { AssetClass } from "@/src/market/instruments";
+import type { Candle, QuoteQuality, Timeframe } from "@/src/market/types";
+import type { ExitRules } from "@/src/trading/exits";
+import type { SignalResult } from "@/src/utils/xaiLogic";
+
+export interface StrategyRef {
+  id: string;
+  /** Semver-ish; the registry resolves a bare id to the highest version. */
+  version: string;
+}
+
+export interface StrategyContext {
+  /** Canonical symbol (see market/instruments). */
+  symbol: string;
+  assetClass: AssetClass;
+  quote: {
+    price: number;
+    previousClose: number;
+    open?: number | null;
+    high?: number | null;
+    low?: number | null;
+    quality?: QuoteQuality;
+  };
+  /** Closed daily bars, oldest first, split-adjusted. */
+  candles: Candle[];
+  /** Extra series the strategy asked for via `Strategy.timeframes`, same conventions. */
+  timeframes?: Partial<Record<Timeframe, Candle[]>>;
+  /** Evaluation time (ms epoch) for session checks; defaults to now. Replays pass the recorded instant. */
+  time?: number;
+  /** Strategy-specific overrides; each strategy documents what it reads. */
+  params?: Record<string, unknown>;
+}
+
+export interface Strategy {
+  id: string;
+  version: string;
+  name: string;
+  description: string;
+  /** Asset classes the strategy was built for; omitted means any. */
+  assetClasses?: AssetClass[];
+  /** Series besides the daily `candles` that callers must load into `ctx.timeframes`. */
+  timeframes?: Timeframe[];
+  /** Exit management for trades taken on this strategy's signals, over the defaults (see trading/exits). */
+  exits?: Partial<ExitRules>;
+  evaluate(ctx: StrategyContext): SignalResult;
+}
+
+/** A SignalResult stamped with the strategy that produced it and the session it was produced in. */
+export interface StrategySignal extends SignalResult {
+  strategy: StrategyRef;
+  /** MarketStatus label at evaluation time: "NSE", "24/7", "London KZ", "Closed (weekend)", ... */
+  session: string;
+}
@@ -1,8 +1,11 @@
 // src/supabase/getUserTrades.ts
 import { supabase } from "../lib/supabaseClient";
+import type { ExitRules } from "../trading/exits";
+import type { SignalFactors } from "../utils/signalFactors";
 
 export interface TradeRecord {
   id: string;
+  user_id?: string;
   user_email: string;
   symbol: string;
   type: "stock" | "crypto" | "index" | string;
@@ -16,6 +19,39 @@ export interface TradeRecord {
   note: string;
   timestamp: number;
   hit_timestamp?: number | null;
+  strategy?: string | null;
+  factors?: SignalFactors | null;
+  session?: string | null;
+  quantity?: number | null;
+  capital_required?: number | null;
+  risk_amount?: number | null;
+  // lifecycle (trading/lifecycle); null on rows saved before it existed
+  state?: string | null;
+  targets_hit?: number | null;
+  close_reason?: string | null;
+  exit_price?: number | null;
+  expires_at?: number | null;
+  hit_price?: number | null;
+  hit_target_index?: number | null;
+  // exits (trading/exits)
+  open_quantity?: number | null;
+  risk_per_unit?: number | null;
+  realized_pnl?: number | null;
+  realized_r?: number | null;
+  exit_rules?: Partial<ExitRules> | null;
+}
+
+export interface TradeEventRecord {
+  id: string;
+  trade_id: string;
+  type: "open" | "target" | "trail" | "stop" | "close";
+  target_index: number | null;
+  price: number | null;
+  /** Booked by an exit. */
+  quantity: number | null;
+  stop_loss: number | null;
+  reason: string | null;
+  time: number;
 }
 
 export interface Notification {
@@ -46,7 +82,7 @@ export async function getUserTrades(email: string): Promise<TradeRecord[]> {
 }
 
 // -------------------------------------------------
-// Fetch last 2 trades where target hit
+// Fetch last 2 trades where a target hit
 // -------------------------------------------------
 export async function getTargetHitTrades(
   userEmail: string
@@ -55,8 +91,8 @@ export async function getTargetHitTrades(
     .from("trades")
     .select("*")
     .eq("user_email", userEmail)
-    .eq("status", "target_hit")
-    .order("timestamp", { ascending: false })
+    .or("status.eq.target_hit,targets_hit.gt.0")
+    .order("hit_timestamp", { ascending: false, nullsFirst: false })
     .limit(2);
 
   if (error) {
@@ -67,6 +103,24 @@ export async function getTargetHitTrades(
   return data ?? [];
 }
 
+// -------------------------------------------------
+// Event log of one trade, oldest first
+// -------------------------------------------------
+export async function getTradeEvents(tradeId: string): Promise<TradeEventRecord[]> {
+  const { data, error } = await supabase
+    .from("trade_events")
+    .select("*")
+    .eq("trade_id", tradeId)
+    .order("time", { ascending: true });
+
+  if (error) {
+    console.error("🔴 Supabase Fetch Error (getTradeEvents):", error);
+    return [];
+  }
+
+  return data ?? [];
+}
+
 // -------------------------------------------------
 // Save Notification
 // -------------------------------------------------
@@ -1,46 +1,30 @@
 // src/supabase/markTargetHit.ts
-import { saveTargetHitToSupabase } from "./trades";
+import { getLiveTrade, recordTradeEvent } from "./trades";
 
 interface MarkHitOptions {
-  userEmail: string;
   symbol: string;
-  type: "stock" | "crypto" | "index";
-  direction: "long" | "short";
-  entryPrice: number;
-  stopLoss?: number | null;
-  targets: number[];
-  confidence: number;
-  provider: string;
-  note?: string;
-
-  // NEW target hit info
   hitPrice: number;
   hitTargetIndex: number; // 1, 2, 3...
+  time?: number;
 }
 
+/**
+ * Record a target fill on the signed-in user's running trade for `symbol`.
+ * Marking a target that is already filled returns the trade unchanged.
+ */
 export async function markTargetHit(opts: MarkHitOptions) {
   try {
-    const payload = {
-      userEmail: opts.userEmail,
-      symbol: opts.symbol,
-      type: opts.type,
-      direction: opts.direction,
-      entryPrice: opts.entryPrice,
-      stopLoss: opts.stopLoss ?? undefined, // ✅ fixed
-      targets: opts.targets ?? [],
-      confidence: opts.confidence,
-      provider: opts.provider,
-      note: opts.note ?? "",
-      timestamp: Date.now(),
-
-      // Important hit-specific fields
-      hitPrice: opts.hitPrice,
-      hitTargetIndex: opts.hitTargetIndex,
-      status: "target_hit" as const,
-    };
-
-    const saved = await saveTargetHitToSupabase(payload);
-    return saved;
+    const trade = await getLiveTrade(opts.symbol);
+    if (!trade) {
+      console.warn(`markTargetHit: no running trade on ${opts.symbol}`);
+      return null;
+    }
+    return await recordTradeEvent(trade, {
+      type: "target",
+      index: opts.hitTargetIndex,
+      price: opts.hitPrice,
+      time: opts.time ?? Date.now(),
+    });
   } catch (err) {
     console.error("🔥 markTargetHit() failed:", err);
     return null;
@@ -0,0 +1,76 @@
+-- src/supabase/schema.sql
+-- Incremental DDL for columns/tables added on top of the original Supabase project.
+-- Every statement is idempotent, so the whole file can be re-run.
+
+-- ---------- Strategies ----------
+-- which strategy ("id" + "version") produced a prediction or trade
+alter table predictions add column if not exists strategy_id text;
+alter table predictions add column if not exists strategy_version text;
+alter table trades add column if not exists strategy text;
+
+-- ---------- Confidence weight profiles ----------
+-- one row per profile version; `profile` holds smc/blend/strongSmcThreshold/minIndicatorScore
+create table if not exists weight_profiles (
+  id text not null,
+  version text not null,
+  profile jsonb not null,
+  asset_classes text[],
+  symbols text[],
+  is_default boolean default false,
+  created_at timestamptz not null default now(),
+  primary key (id, version)
+);
+alter table predictions add column if not exists weight_profile text;
+
+-- ---------- Signal factors ----------
+-- typed breakdown (SignalFactors) of the signal a trade was entered on
+alter table trades add column if not exists factors jsonb;
+
+-- ---------- Market sessions ----------
+-- session label ("NSE", "24/7", "London KZ", "Closed (weekend)") a signal was generated in
+alter table predictions add column if not exists session text;
+alter table trades add column if not exists session text;
+
+-- ---------- Position sizing ----------
+-- suggested size at entry under the account's risk settings (quant/positionSizing)
+alter table trades add column if not exists quantity numeric;
+alter table trades add column if not exists capital_required numeric;
+alter table trades add column if not exists risk_amount numeric;
+
+-- ---------- Trade lifecycle ----------
+-- one row per trade, moved through pending/open/partial/trailing/closed (trading/lifecycle);
+-- `status` is still written ("active" while running) for older readers
+alter table trades add column if not exists state text;
+alter table trades add column if not exists targets_hit integer;
+alter table trades add column if not exists close_reason text;
+alter table trades add column if not exists exit_price numeric;
+alter table trades add column if not exists expires_at bigint;
+create table if not exists trade_events (
+  id uuid primary key default gen_random_uuid(),
+  trade_id text not null,
+  user_id uuid,
+  type text not null,
+  target_index integer,
+  price numeric,
+  stop_loss numeric,
+  reason text,
+  time bigint not null,
+  created_at timestamptz not null default now()
+);
+create index if not exists trade_events_trade on trade_events (trade_id, time);
+-- a level is filled once: a replayed hit fails here instead of logging twice
+create unique index if not exists trade_events_once on trade_events (trade_id, type, coalesce(target_index, 0))
+  where type in ('open', 'target', 'stop', 'close');
+
+-- ---------- Exits ----------
+-- partial exits, breakeven and trailing stops (trading/exits); rules are snapshotted at entry
+alter table trades add column if not exists open_quantity numeric;
+alter table trades add column if not exists risk_per_unit numeric;
+alter table trades add column if not exists realized_pnl numeric;
+alter table trades add column if not exists realized_r numeric;
+alter table trades add column if not exists exit_rules jsonb;
+alter table trade_events add column if not exists quantity numeric;
+
+-- ---------- Trade monitor ----------
+-- the server-side monitor (trading/monitor) reloads every running trade each minute
+create index if not exists trades_running on trades (symbol) where status = 'active';
@@ -0,0 +1,160 @@
+// src/supabase/tradeStore.ts
+// Trade rows <-> lifecycle, and the one place a transition is written. Takes the
+// Supabase client as an argument, so the browser (anon key, the user's own rows
+// under RLS) and the server-side monitor (service key, every user's rows) commit
+// trades the same way.
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { displaySymbol } from "@/src/market/instruments";
+import { DEFAULT_EXIT_RULES, ExitRules, exitRulesFor } from "@/src/trading/exits";
+import { describeEvent, legacyStatus, realizedR, TradeEvent, TradeLifecycle } from "@/src/trading/lifecycle";
+import type { TradeStore } from "@/src/trading/monitor";
+import type { TradeRecord } from "./getUserTrades";
+
+// ---------- Rows ----------
+
+/**
+ * Rows written before the lifecycle existed have no `state`; their old status
+ * says enough to place them.
+ */
+export function lifecycleFromRow(row: TradeRecord): TradeLifecycle {
+  const legacyClose = row.status === "target_hit" ? "target" : row.status === "stop_loss" ? "stop" : null;
+  const state = (row.state as TradeLifecycle["state"] | null) ?? (legacyClose ? "closed" : "open");
+  const entry = Number(row.entry_price);
+  const stoploss = Number(row.stop_loss ?? 0);
+  const quantity = row.quantity && row.quantity > 0 ? Number(row.quantity) : 1;
+  return {
+    state,
+    side: row.direction === "short" ? "short" : "long",
+    entry,
+    stoploss,
+    targets: (row.targets ?? []).map(Number),
+    targetsHit: row.targets_hit ?? (legacyClose === "target" ? row.targets?.length ?? 0 : 0),
+    quantity,
+    openQuantity: row.open_quantity ?? (state === "closed" ? 0 : quantity),
+    riskPerUnit: row.risk_per_unit ?? (stoploss > 0 ? Math.abs(entry - stoploss) : 0),
+    realizedPnl: Number(row.realized_pnl ?? 0),
+    closeReason: (row.close_reason as TradeLifecycle["closeReason"]) ?? legacyClose,
+    exitPrice: row.exit_price ?? null,
+    expiresAt: row.expires_at ?? null,
+  };
+}
+
+export function lifecycleColumns(trade: TradeLifecycle) {
+  return {
+    state: trade.state,
+    status: legacyStatus(trade),
+    stop_loss: trade.stoploss,
+    entry_price: trade.entry,
+    targets_hit: trade.targetsHit,
+    open_quantity: trade.openQuantity,
+    risk_per_unit: trade.riskPerUnit,
+    realized_pnl: trade.realizedPnl,
+    realized_r: realizedR(trade),
+    close_reason: trade.closeReason,
+    exit_price: trade.exitPrice,
+    expires_at: trade.expiresAt,
+  };
+}
+
+export function eventRow(tradeId: string, userId: string | null, event: TradeEvent) {
+  return {
+    trade_id: tradeId,
+    user_id: userId,
+    type: event.type,
+    target_index: event.type === "target" ? event.index : null,
+    price: "price" in event ? event.price : null,
+    quantity: "quantity" in event ? event.quantity ?? null : null,
+    stop_loss: event.type === "trail" ? event.stoploss : null,
+    reason: event.type === "close" ? event.reason : null,
+    time: event.time,
+  };
+}
+
+/** Exit rules the trade was opened with; trades saved before exits existed get today's. */
+export function exitRulesForRow(row: TradeRecord): ExitRules {
+  return row.exit_rules ? { ...DEFAULT_EXIT_RULES, ...row.exit_rules } : exitRulesFor(row.strategy);
+}
+
+// ---------- Commit ----------
+
+/**
+ * Write a transition computed from `row`. The update only matches the state it
+ * was computed from, so two writers seeing the same hit (two tabs, a tab and
+ * the monitor) cannot both apply it: the loser gets null and nothing else
+ * happens. Matching the stop keeps two trails from undoing each other. The
+ * winner logs the events and sends the notifications, once per level.
+ */
+export async function commitTrade(
+  db: SupabaseClient,
+  row: TradeRecord,
+  trade: TradeLifecycle,
+  events: TradeEvent[]
+): Promise<TradeRecord | null> {
+  const lastHit = [...events].reverse().find((e) => e.type === "target" || e.type === "stop");
+  const update: Record<string, unknown> = { ...lifecycleColumns(trade) };
+  if (lastHit && "price" in lastHit) {
+    update.hit_price = lastHit.price;
+    update.hit_target_index = lastHit.type === "target" ? lastHit.index : null;
+    update.hit_timestamp = lastHit.time;
+  }
+
+  let query = db.from("trades").update(update).eq("id", row.id);
+  query = row.state ? query.eq("state", row.state) : query.is("state", null);
+  query = row.targets_hit === null || row.targets_hit === undefined ? query.is("targets_hit", null) : query.eq("targets_hit", row.targets_hit);
+  query = row.stop_loss === null || row.stop_loss === undefined ? query.is("stop_loss", null) : query.eq("stop_loss", row.stop_loss);
+  const { data, error } = await query.select();
+
+  if (error) {
+    console.error("🔴 Error updating trade state:", error);
+    return null;
+  }
+  const saved = (data?.[0] as TradeRecord | undefined) ?? null;
+  if (!saved) {
+    console.warn(`Trade ${row.id} moved on before this update; skipped`, events.map((e) => e.type));
+    return null;
+  }
+
+  if (events.length) {
+    const { error: logError } = await db.from("trade_events").insert(events.map((e) => eventRow(row.id, row.user_id ?? null, e)));
+    if (logError) console.error("🔴 Error logging trade events:", logError);
+  }
+
+  const notes = events.flatMap((e) => {
+    const message = describeEvent(e, trade);
+    return message
+      ? [{ user_email: row.user_email, symbol: row.symbol, signal: e.type.toUpperCase(), message: `${displaySymbol(row.symbol)}: ${message}` }]
+      : [];
+  });
+  if (notes.length) {
+    const { error: notifyError } = await db.from("notifications").insert(notes);
+    if (notifyError) console.error("🔴 Error saving trade notifications:", notifyError);
+  }
+  return saved;
+}
+
+// ---------- Monitor store ----------
+
+/** TradeStore for the server-side monitor; pass the service-role client so it sees every user's trades. */
+export function createTradeStore(db: SupabaseClient): TradeStore {
+  return {
+    async loadOpenTrades() {
+      const { data, error } = await db.from("trades").select("*").eq("status", "active");
+      if (error) {
+        console.error("🔴 Error loading open trades:", error);
+        return [];
+      }
+      return (data ?? []) as TradeRecord[];
+    },
+
+    async loadTrade(id) {
+      const { data, error } = await db.from("trades").select("*").eq("id", id).limit(1);
+      if (error) {
+        console.error("🔴 Error reloading trade:", error);
+        return null;
+      }
+      return (data?.[0] as TradeRecord | undefined) ?? null;
+    },
+
+    commit: (row, trade, events) => commitTrade(db, row, trade, events),
+  };
+}
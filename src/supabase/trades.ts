@@ -1,11 +1,16 @@
 // src/supabase/trades.ts
 
 import { supabase } from "@/src/lib/supabaseClient";
+import type { TradeRecord } from "@/src/supabase/getUserTrades";
+import { applyExits, ExitMarket, exitRulesFor } from "@/src/trading/exits";
+import { applyEvent, newTrade, TradeEvent } from "@/src/trading/lifecycle";
+import { commitTrade, eventRow, exitRulesForRow, lifecycleColumns, lifecycleFromRow } from "./tradeStore";
+import type { SignalFactors } from "@/src/utils/signalFactors";
 
 /*
-|-------------------------------------------------------------------------- 
-| Interfaces (unchanged)
-|-------------------------------------------------------------------------- 
+|--------------------------------------------------------------------------
+| Interfaces
+|--------------------------------------------------------------------------
 */
 export interface TradePayload {
   userEmail: string;
@@ -14,107 +19,79 @@ export interface TradePayload {
   direction: "long" | "short";
   entryPrice: number;
   confidence: number;
-  status: "active" | "target_hit" | "stop_loss";
   provider: string;
   timestamp: number;
   stopLoss?: number;
   targets?: number[];
-  hitPrice?: number;
-  hitTargetIndex?: number;
+  /** Wait for price to reach `entryPrice` instead of entering now. */
+  pending?: boolean;
+  expiresAt?: number;
   note?: string; // <-- add this
+  strategy?: string; // "id@version" that produced the signal
+  factors?: SignalFactors; // typed breakdown of the signal at entry
+  session?: string; // market session label when the signal fired
+  quantity?: number; // suggested size at entry (see quant/positionSizing)
+  capitalRequired?: number;
+  riskAmount?: number; // money lost if the stop is hit, in the instrument's currency
 }
 
-export interface TargetHitPayload extends TradePayload {
-  hitPrice: number;
-  hitTargetIndex: number;
-  note?: string; // optional note
-}
-
-export interface TargetHitPayload extends TradePayload {
-  hitPrice: number;
-  hitTargetIndex: number;
+async function currentUserId(): Promise<string | null> {
+  const { data: auth } = await supabase.auth.getUser();
+  return auth?.user?.id ?? null;
 }
 
 /*
-|-------------------------------------------------------------------------- 
-| 1) Save or Update Active Trade — FIXED
-|-------------------------------------------------------------------------- 
+|--------------------------------------------------------------------------
+| 1) Open a trade
+|--------------------------------------------------------------------------
+| One live trade per user and symbol: a newly confirmed signal closes the
+| previous one ("manual") instead of overwriting its row.
 */
 export default async function saveTradeToSupabase(payload: TradePayload) {
   try {
-    const { data: auth } = await supabase.auth.getUser();
-    const supaUser = auth?.user;
-    if (!supaUser?.id) return null;
-
-    // fetch existing active trade
-    const { data: existingActive } = await supabase
-      .from("trades")
-      .select("*")
-      .eq("user_id", supaUser.id)
-      .eq("symbol", payload.symbol)
-      .eq("status", "active");
-
-    const existing = existingActive?.[0] ?? null;
-
-    /*
-    |------------------------------------------------------------
-    | IMPORTANT FIX
-    |------------------------------------------------------------
-    | If payload contains hitPrice or hitTargetIndex:
-    | → Do NOT update existing "active"
-    | → Insert a NEW row instead
-    |------------------------------------------------------------
-    */
-    const isTargetHit = !!payload.hitPrice || !!payload.hitTargetIndex;
-
-    if (isTargetHit) {
-      // create a new target-hit record
-      return await saveTargetHitToSupabase({
-        ...payload,
-        hitPrice: payload.hitPrice!,
-        hitTargetIndex: payload.hitTargetIndex!,
-      });
+    const userId = await currentUserId();
+    if (!userId) return null;
+
+    const existing = await getLiveTrade(payload.symbol);
+    if (existing) {
+      await recordTradeEvent(existing, { type: "close", reason: "manual", price: payload.entryPrice, time: Date.now() });
     }
 
-    // build normal trade data
+    const trade = newTrade({
+      side: payload.direction,
+      entry: payload.entryPrice,
+      stoploss: payload.stopLoss ?? 0,
+      targets: payload.targets ?? [],
+      quantity: payload.quantity,
+      pending: payload.pending,
+      expiresAt: payload.expiresAt,
+    });
+
     const tradeData: any = {
-      user_id: supaUser.id,
+      user_id: userId,
       user_email: payload.userEmail,
       symbol: payload.symbol,
       type: payload.type,
       direction: payload.direction,
-      entry_price: payload.entryPrice,
-      stop_loss: payload.stopLoss ?? null,
       targets: payload.targets ?? null,
       confidence: payload.confidence,
-      status: payload.status,
       provider: payload.provider,
       note: payload.note ?? "",
+      strategy: payload.strategy ?? null,
+      factors: payload.factors ?? null,
+      session: payload.session ?? null,
+      quantity: payload.quantity ?? null,
+      capital_required: payload.capitalRequired ?? null,
+      risk_amount: payload.riskAmount ?? null,
       timestamp: payload.timestamp,
+      exit_rules: exitRulesFor(payload.strategy),
+      ...lifecycleColumns(trade),
 
       hit_price: null,
       hit_target_index: null,
       hit_timestamp: null,
     };
 
-    // update existing active trade (normal case)
-    if (existing?.id) {
-      const { data, error } = await supabase
-        .from("trades")
-        .update(tradeData)
-        .eq("id", existing.id)
-        .eq("user_id", supaUser.id)
-        .select();
-
-      if (error) {
-        console.error("🔴 Error updating trade:", error);
-        return null;
-      }
-
-      return data?.[0] ?? null;
-    }
-
-    // insert new active trade if none exist
     const { data, error } = await supabase.from("trades").insert(tradeData).select();
 
     if (error) {
@@ -122,7 +99,14 @@ export default async function saveTradeToSupabase(payload: TradePayload) {
       return null;
     }
 
-    return data?.[0] ?? null;
+    const saved = (data?.[0] as TradeRecord | undefined) ?? null;
+    if (saved && trade.state === "open") {
+      const { error: logError } = await supabase
+        .from("trade_events")
+        .insert(eventRow(saved.id, userId, { type: "open", price: trade.entry, time: Date.now() }));
+      if (logError) console.error("🔴 Error logging trade open:", logError);
+    }
+    return saved;
   } catch (err) {
     console.error("🔥 saveTradeToSupabase() Error:", err);
     return null;
@@ -130,47 +114,79 @@ export default async function saveTradeToSupabase(payload: TradePayload) {
 }
 
 /*
-|-------------------------------------------------------------------------- 
-| 2) Save Target Hit — Always inserts new row (unchanged)
-|-------------------------------------------------------------------------- 
+|--------------------------------------------------------------------------
+| 2) Move a trade
+|--------------------------------------------------------------------------
 */
-export async function saveTargetHitToSupabase(payload: TargetHitPayload) {
-  try {
-    const { data: auth } = await supabase.auth.getUser();
-    const supaUser = auth?.user;
-
-    if (!supaUser?.id) return null;
 
-    const tradeData: any = {
-      user_id: supaUser.id,
-      user_email: payload.userEmail,
-      symbol: payload.symbol,
-      type: payload.type,
-      direction: payload.direction,
-      entry_price: payload.entryPrice,
-      stop_loss: payload.stopLoss ?? null,
-      targets: payload.targets ?? null,
-      confidence: payload.confidence,
-      status: "target_hit",
-      provider: payload.provider,
-      note: payload.note ?? "",
-      timestamp: payload.timestamp ?? Date.now(),
-
-      hit_price: payload.hitPrice,
-      hit_target_index: payload.hitTargetIndex,
-      hit_timestamp: Date.now(),
-    };
-
-    const { data, error } = await supabase.from("trades").insert(tradeData).select();
+/** The signed-in user's running trade on `symbol`, if any. */
+export async function getLiveTrade(symbol: string): Promise<TradeRecord | null> {
+  const userId = await currentUserId();
+  if (!userId) return null;
+  const { data, error } = await supabase
+    .from("trades")
+    .select("*")
+    .eq("user_id", userId)
+    .eq("symbol", symbol)
+    .eq("status", "active")
+    .order("timestamp", { ascending: false })
+    .limit(1);
+
+  if (error) {
+    console.error("🔴 Error loading live trade:", error);
+    return null;
+  }
+  return (data?.[0] as TradeRecord | undefined) ?? null;
+}
 
-    if (error) {
-      console.error("🔴 Error inserting target hit trade:", error);
+/**
+ * Apply one event (a target reported elsewhere, a manual close). Returns the
+ * updated row, the row unchanged for a replayed event, or null when the event
+ * is invalid or the save failed.
+ */
+export async function recordTradeEvent(row: TradeRecord, event: TradeEvent): Promise<TradeRecord | null> {
+  try {
+    const userId = await currentUserId();
+    if (!userId) return null;
+    const t = applyEvent(lifecycleFromRow(row), event);
+    if (t.error) {
+      console.warn(`Rejected ${event.type} on trade ${row.id}: ${t.error}`);
       return null;
     }
+    if (!t.applied) return row;
+    return await commitTrade(supabase, row, t.trade, [t.event]);
+  } catch (err) {
+    console.error("🔥 recordTradeEvent() Error:", err);
+    return null;
+  }
+}
 
-    return data?.[0] ?? null;
+/**
+ * Run a price print through a trade under its exit rules: fills, targets and
+ * partials, stop, breakeven/trail, expiry. Returns the row as it now stands.
+ */
+export async function advanceTrade(
+  row: TradeRecord,
+  price: number,
+  time = Date.now(),
+  market: ExitMarket = {}
+): Promise<TradeRecord | null> {
+  try {
+    const { trade, events } = applyExits(lifecycleFromRow(row), exitRulesForRow(row), price, time, market);
+    if (!events.length) return row;
+    if (!(await currentUserId())) return null;
+    return await commitTrade(supabase, row, trade, events);
   } catch (err) {
-    console.error("🔥 saveTargetHitToSupabase() Error:", err);
+    console.error("🔥 advanceTrade() Error:", err);
     return null;
   }
 }
+
+/** Newest running trade per symbol out of `getUserTrades` rows, for checking prints locally first. */
+export function liveTradesBySymbol(rows: TradeRecord[]): Record<string, TradeRecord> {
+  const live: Record<string, TradeRecord> = {};
+  for (const row of rows) {
+    if (row.status === "active" && !live[row.symbol]) live[row.symbol] = row;
+  }
+  return live;
+}
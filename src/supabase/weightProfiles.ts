@@ -0,0 +1,55 @@
+// src/supabase/weightProfiles.ts
+// Loads weight profiles from the `weight_profiles` table (see schema.sql) into the
+// in-process registry. Each row is one profile version plus the asset classes and
+// symbols it should be used for (any spelling: "RELIANCE.NS" and "NSE:RELIANCE" both
+// work); rows are applied oldest first, so the newest assignment wins.
+import { supabase } from "@/src/lib/supabaseClient";
+import type { AssetClass } from "@/src/market/instruments";
+import { assignWeightProfile, registerWeightProfile, WeightProfile } from "@/src/quant/weightProfiles";
+
+interface WeightProfileRow {
+  id: string;
+  version: string;
+  profile: Omit<WeightProfile, "id" | "version">;
+  asset_classes: AssetClass[] | null;
+  symbols: string[] | null;
+  is_default: boolean | null;
+}
+
+const RELOAD_MS = 5 * 60_000;
+let lastLoad = 0;
+let inflight: Promise<number> | null = null;
+
+/** Refresh profiles from the DB (at most every 5 minutes unless forced). Returns how many registered. */
+export function loadWeightProfiles(force = false): Promise<number> {
+  if (inflight) return inflight;
+  if (!force && Date.now() - lastLoad < RELOAD_MS) return Promise.resolve(0);
+
+  inflight = (async () => {
+    const { data, error } = await supabase.from("weight_profiles").select("*").order("created_at", { ascending: true });
+    if (error) {
+      console.warn("loadWeightProfiles failed", error.message);
+      return 0;
+    }
+
+    let count = 0;
+    for (const row of (data ?? []) as WeightProfileRow[]) {
+      if (!registerWeightProfile({ ...row.profile, id: row.id, version: row.version })) continue;
+      count++;
+      const ref = `${row.id}@${row.version}`;
+      if (row.is_default) assignWeightProfile(ref);
+      for (const assetClass of row.asset_classes ?? []) assignWeightProfile(ref, { assetClass });
+      for (const symbol of row.symbols ?? []) assignWeightProfile(ref, { symbol });
+    }
+    lastLoad = Date.now();
+    return count;
+  })()
+    .catch((err) => {
+      console.warn("loadWeightProfiles failed", err);
+      return 0;
+    })
+    .finally(() => {
+      inflight = null;
+    });
+  return inflight;
+}
@@ -0,0 +1,206 @@
+// src/trading/exits.ts
+// Exit management for a running trade: book a share of the position at each
+// target, move the stop to entry after a target fills, and trail it by ATR or by
+// the last swing. The stop only ever tightens; the lifecycle rejects anything else.
+//
+// Rules layer like the other settings: built-in defaults, then what the strategy
+// declares (`Strategy.exits`), then the user's own, overall and per strategy id.
+// They live in localStorage ("exitRules", edited on /settings) in the browser and in the EXIT_RULES
+// env var on the server, e.g. {"default":{"trail":"atr"},"byStrategy":{"smc":{"partials":[0.5,0.5]}}}
+// A trade keeps the rules it was opened with, so editing them never moves open trades.
+import { atr, last } from "@/src/quant/indicators";
+import { analyzeStructure, SwingPoint } from "@/src/quant/structure";
+import type { Candle } from "@/src/market/types";
+import { getStrategy, parseStrategyRef } from "@/src/strategies";
+import { applyEvent, eventsForPrice, isLive, TradeEvent, TradeLifecycle } from "./lifecycle";
+
+export type TrailMethod = "none" | "atr" | "swing";
+
+export interface ExitRules {
+  /** Target after which the stop moves to entry (1 = T1); 0 turns it off. */
+  breakevenAfter: number;
+  trail: TrailMethod;
+  /** Target after which trailing starts; 0 trails from the fill. */
+  trailAfter: number;
+  /** Trail distance for "atr", in ATRs. */
+  trailAtr: number;
+  /** Share of the entry quantity booked at T1, T2, …; whatever is left goes at the last target. */
+  partials: number[];
+}
+
+export const DEFAULT_EXIT_RULES: ExitRules = {
+  breakevenAfter: 1,
+  trail: "none",
+  trailAfter: 1,
+  trailAtr: 2,
+  partials: [0.5, 0.3, 0.2],
+};
+
+export interface ExitRulesConfig {
+  default?: Partial<ExitRules>;
+  /** Keyed by strategy id. */
+  byStrategy?: Record<string, Partial<ExitRules>>;
+}
+
+/** What the trail reads from the chart, plus the lot size partials round to. */
+export interface ExitMarket {
+  atr?: number | null;
+  /** Confirmed swings, oldest first. */
+  swings?: SwingPoint[];
+  lotSize?: number;
+}
+
+// ---------- Rules ----------
+
+/** Rules for a trade from `strategy` ("id@version"). */
+export function exitRulesFor(strategy: string | null | undefined, config: ExitRulesConfig = loadExitRules()): ExitRules {
+  const ref = strategy ? parseStrategyRef(strategy) : null;
+  const own = ref ? getStrategy(ref.id, ref.version)?.exits : undefined;
+  return { ...DEFAULT_EXIT_RULES, ...own, ...config.default, ...(ref ? config.byStrategy?.[ref.id] : undefined) };
+}
+
+/** ATR and swings from recent bars, for trailing. */
+export function exitMarket(candles: Candle[], lotSize?: number): ExitMarket {
+  const bars = {
+    high: candles.map((c) => c.high),
+    low: candles.map((c) => c.low),
+    close: candles.map((c) => c.close),
+    volume: candles.map((c) => c.volume),
+  };
+  return { atr: last(atr(bars)), swings: analyzeStructure(bars).swings, lotSize };
+}
+
+// ---------- Stops ----------
+
+/** The most protective stop the rules allow at `price`, or null when the current one stands. */
+export function trailStop(trade: TradeLifecycle, rules: ExitRules, price: number, market: ExitMarket = {}): number | null {
+  if (!isLive(trade) || trade.state === "pending") return null;
+  const long = trade.side === "long";
+  const candidates: number[] = [];
+
+  if (rules.breakevenAfter > 0 && trade.targetsHit >= rules.breakevenAfter) candidates.push(trade.entry);
+  if (rules.trail !== "none" && trade.targetsHit >= rules.trailAfter) {
+    if (rules.trail === "atr" && market.atr && market.atr > 0) {
+      candidates.push(long ? price - market.atr * rules.trailAtr : price + market.atr * rules.trailAtr);
+    }
+    if (rules.trail === "swing") {
+      const swing = [...(market.swings ?? [])]
+        .reverse()
+        .find((s) => s.kind === (long ? "low" : "high") && (long ? s.price < price : s.price > price));
+      if (swing) candidates.push(swing.price);
+    }
+  }
+
+  // tighter than now, still on the right side of price
+  const valid = candidates.filter((s) => (long ? s > trade.stoploss && s < price : s < trade.stoploss && s > price));
+  if (!valid.length) return null;
+  return long ? Math.max(...valid) : Math.min(...valid);
+}
+
+// ---------- Partials ----------
+
+/** Quantity to book at target `index` (1-based); the last target takes whatever is open. */
+export function partialQuantity(trade: TradeLifecycle, rules: ExitRules, index: number, lotSize?: number): number {
+  if (index >= trade.targets.length) return trade.openQuantity;
+  let qty = (rules.partials[index - 1] ?? 0) * trade.quantity;
+  // whole lots for sized F&O trades; unsized (per-unit) trades split freely
+  if (lotSize && lotSize > 0 && trade.quantity >= lotSize) qty = Math.floor(qty / lotSize + 1e-9) * lotSize;
+  return Math.min(qty, trade.openQuantity);
+}
+
+// ---------- Prices ----------
+
+/**
+ * Run a price print through a trade under its exit rules: fills, targets with
+ * their partial quantities, the stop, then any breakeven or trail the new state
+ * allows. `events` are the ones that changed the trade, exits stamped with the
+ * quantity they booked.
+ */
+export function applyExits(
+  trade: TradeLifecycle,
+  rules: ExitRules,
+  price: number,
+  time: number,
+  market: ExitMarket = {}
+): { trade: TradeLifecycle; events: TradeEvent[] } {
+  const events: TradeEvent[] = [];
+  let current = trade;
+  const apply = (event: TradeEvent) => {
+    const t = applyEvent(current, event);
+    if (t.applied) {
+      current = t.trade;
+      events.push(t.event);
+    }
+  };
+
+  for (const event of eventsForPrice(trade, price, time)) {
+    apply(event.type === "target" ? { ...event, quantity: partialQuantity(current, rules, event.index, market.lotSize) } : event);
+  }
+  const stop = trailStop(current, rules, price, market);
+  if (stop !== null) apply({ type: "trail", stoploss: stop, time });
+  return { trade: current, events };
+}
+
+// ---------- Settings ----------
+
+const STORAGE_KEY = "exitRules";
+
+function validateRules(where: string, rules: Partial<ExitRules>, errors: string[]) {
+  if (typeof rules !== "object" || rules === null) {
+    errors.push(`${where}: expected an object`);
+    return;
+  }
+  const whole = (v: unknown) => typeof v === "number" && Number.isInteger(v) && v >= 0;
+  if (rules.breakevenAfter !== undefined && !whole(rules.breakevenAfter)) errors.push(`${where}.breakevenAfter: expected a target number, 0 for off`);
+  if (rules.trail !== undefined && !["none", "atr", "swing"].includes(rules.trail)) errors.push(`${where}.trail: expected none, atr or swing`);
+  if (rules.trailAfter !== undefined && !whole(rules.trailAfter)) errors.push(`${where}.trailAfter: expected a target number, 0 for from entry`);
+  if (rules.trailAtr !== undefined && !(typeof rules.trailAtr === "number" && rules.trailAtr > 0)) errors.push(`${where}.trailAtr: expected a positive number`);
+  if (rules.partials !== undefined) {
+    const p = rules.partials;
+    if (!Array.isArray(p) || !p.every((x) => typeof x === "number" && x >= 0 && x <= 1)) errors.push(`${where}.partials: expected shares between 0 and 1`);
+    else if (p.reduce((a, x) => a + x, 0) > 1 + 1e-9) errors.push(`${where}.partials: shares add up to more than 1`);
+  }
+}
+
+/** Problems with an exit-rules config; empty when it can be used. */
+export function validateExitRules(config: ExitRulesConfig): string[] {
+  const errors: string[] = [];
+  if (typeof config !== "object" || config === null) return ["expected an object"];
+  if (config.default !== undefined) validateRules("default", config.default, errors);
+  for (const [id, rules] of Object.entries(config.byStrategy ?? {})) validateRules(`byStrategy.${id}`, rules, errors);
+  return errors;
+}
+
+function parseExitRules(raw: string | null | undefined, source: string): ExitRulesConfig {
+  if (!raw) return {};
+  try {
+    const parsed = JSON.parse(raw) as ExitRulesConfig;
+    const errors = validateExitRules(parsed);
+    if (!errors.length) return parsed;
+    console.warn(`Ignoring exit rules from ${source}:`, errors.join("; "));
+  } catch (err) {
+    console.warn(`Ignoring exit rules from ${source}`, err);
+  }
+  return {};
+}
+
+export function loadExitRules(): ExitRulesConfig {
+  if (typeof window === "undefined") return parseExitRules(process.env.EXIT_RULES, "EXIT_RULES");
+  try {
+    return parseExitRules(localStorage.getItem(STORAGE_KEY), "localStorage");
+  } catch {
+    return {};
+  }
+}
+
+/** Persist browser-side rules. Returns the validation errors (nothing is saved if any). */
+export function saveExitRules(config: ExitRulesConfig): string[] {
+  const errors = validateExitRules(config);
+  if (errors.length) return errors;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(config));
+  } catch (err) {
+    console.warn("saveExitRules failed", err);
+  }
+  return [];
+}
@@ -0,0 +1,257 @@
+// src/trading/lifecycle.ts
+// A saved trade from entry to exit, as an explicit state machine:
+//
+//   pending ─▶ open ─▶ partial (T1, T2, …) ─▶ trailing ─▶ closed (target | stop | manual | expired)
+//
+// Every step is an event checked against the current state. Replaying an event
+// that already happened (the same target seen again on the next refresh) is a
+// no-op, not a second fill. Exits book quantity: targets can close part of the
+// position (see trading/exits for how much), the stop or a close books the rest,
+// and the blended result accumulates in `realizedPnl`. Pure, so the pages and the
+// Supabase layer move trades the same way.
+import type { Side } from "@/src/quant/riskLevels";
+
+export type TradeState = "pending" | "open" | "partial" | "trailing" | "closed";
+export type CloseReason = "target" | "stop" | "manual" | "expired";
+
+export interface TradeLifecycle {
+  state: TradeState;
+  side: Side;
+  entry: number;
+  stoploss: number;
+  targets: number[];
+  /** Targets filled so far; 2 means T1 and T2. */
+  targetsHit: number;
+  /** Size at entry; 1 for unsized trades, so P&L reads per unit. */
+  quantity: number;
+  /** Still held after partial exits. */
+  openQuantity: number;
+  /** Entry-to-stop distance when the trade filled: the 1R realized R is measured in. */
+  riskPerUnit: number;
+  /** Booked so far across partial exits and the final one. */
+  realizedPnl: number;
+  closeReason: CloseReason | null;
+  /** Price of the exit that closed the trade; null when it closed before the entry filled. */
+  exitPrice: number | null;
+  /** Trades still running at this time close as "expired". */
+  expiresAt: number | null;
+}
+
+// `quantity` on exits is what was booked; on a target it can also be passed in to
+// choose the size, otherwise an equal share of what is open (all of it at the last target)
+export type TradeEvent =
+  | { type: "open"; price: number; time: number }
+  /** `index` is 1-based: T1 = 1. */
+  | { type: "target"; index: number; price: number; time: number; quantity?: number }
+  | { type: "trail"; stoploss: number; time: number }
+  | { type: "stop"; price: number; time: number; quantity?: number }
+  | { type: "close"; reason: "manual" | "expired"; price: number; time: number; quantity?: number };
+
+export interface Transition {
+  trade: TradeLifecycle;
+  /** False when nothing changed: a replayed event, or a rejected one (see `error`). */
+  applied: boolean;
+  error: string | null;
+  /** The event as applied: exits carry the quantity they booked. */
+  event: TradeEvent;
+}
+
+// a target filled while trailing keeps trailing; partial → partial is the next target
+const TRANSITIONS: Record<TradeState, TradeState[]> = {
+  pending: ["open", "closed"],
+  open: ["partial", "trailing", "closed"],
+  partial: ["partial", "trailing", "closed"],
+  trailing: ["trailing", "closed"],
+  closed: [],
+};
+
+export function canTransition(from: TradeState, to: TradeState): boolean {
+  return TRANSITIONS[from].includes(to);
+}
+
+export function isLive(trade: Pick<TradeLifecycle, "state">): boolean {
+  return trade.state !== "closed";
+}
+
+export function newTrade(input: {
+  side: Side;
+  entry: number;
+  stoploss: number;
+  targets: number[];
+  quantity?: number | null;
+  /** Wait for price to reach `entry` instead of filling now. */
+  pending?: boolean;
+  expiresAt?: number | null;
+}): TradeLifecycle {
+  const quantity = input.quantity && input.quantity > 0 ? input.quantity : 1;
+  return {
+    state: input.pending ? "pending" : "open",
+    side: input.side,
+    entry: input.entry,
+    stoploss: input.stoploss,
+    targets: input.targets,
+    targetsHit: 0,
+    quantity,
+    openQuantity: quantity,
+    riskPerUnit: input.stoploss > 0 ? Math.abs(input.entry - input.stoploss) : 0,
+    realizedPnl: 0,
+    closeReason: null,
+    exitPrice: null,
+    expiresAt: input.expiresAt ?? null,
+  };
+}
+
+// ---------- Transitions ----------
+
+function replayOnClosed(trade: TradeLifecycle, event: TradeEvent): boolean {
+  if (event.type === "target") return event.index <= trade.targetsHit;
+  if (event.type === "stop") return trade.closeReason === "stop";
+  if (event.type === "close") return trade.closeReason === event.reason;
+  return false;
+}
+
+const round = (n: number) => Number(n.toFixed(8));
+
+/** Take `quantity` off the position at `price`. */
+function book(trade: TradeLifecycle, quantity: number, price: number): TradeLifecycle {
+  const qty = Math.min(Math.max(quantity, 0), trade.openQuantity);
+  const pnl = (price - trade.entry) * qty * (trade.side === "long" ? 1 : -1);
+  return { ...trade, openQuantity: round(trade.openQuantity - qty), realizedPnl: round(trade.realizedPnl + pnl) };
+}
+
+function close(trade: TradeLifecycle, reason: CloseReason, price: number): TradeLifecycle {
+  return { ...book(trade, trade.openQuantity, price), state: "closed", closeReason: reason, exitPrice: price };
+}
+
+function nextTrade(trade: TradeLifecycle, event: TradeEvent): TradeLifecycle | null | string {
+  const filled = trade.state !== "pending";
+  switch (event.type) {
+    case "open":
+      return filled
+        ? null
+        : { ...trade, state: "open", entry: event.price, riskPerUnit: trade.stoploss > 0 ? Math.abs(event.price - trade.stoploss) : 0 };
+    case "target": {
+      if (!filled) return "target before the trade was filled";
+      if (!(event.index >= 1 && event.index <= trade.targets.length)) return `no target T${event.index}`;
+      if (event.index <= trade.targetsHit) return null;
+      const hit = { ...trade, targetsHit: event.index };
+      if (event.index === trade.targets.length) return close(hit, "target", event.price);
+      const share = event.quantity ?? trade.openQuantity / (trade.targets.length - trade.targetsHit);
+      const partial = book(hit, share, event.price);
+      // partials that add up to the whole position end the trade early
+      if (partial.openQuantity <= 0) return { ...partial, state: "closed", closeReason: "target", exitPrice: event.price };
+      return { ...partial, state: trade.state === "trailing" ? "trailing" : "partial" };
+    }
+    case "trail": {
+      if (!filled) return "trail before the trade was filled";
+      if (event.stoploss === trade.stoploss) return null;
+      const tighter = trade.side === "long" ? event.stoploss > trade.stoploss : event.stoploss < trade.stoploss;
+      if (!tighter) return `trail would loosen the stop (${trade.stoploss} → ${event.stoploss})`;
+      return { ...trade, state: "trailing", stoploss: event.stoploss };
+    }
+    case "stop":
+      return filled ? close(trade, "stop", event.price) : "stop before the trade was filled";
+    case "close":
+      // an order that never filled is cancelled: nothing was held, so nothing is booked
+      return filled ? close(trade, event.reason, event.price) : { ...trade, state: "closed", openQuantity: 0, closeReason: event.reason };
+  }
+}
+
+/** Apply one event. Invalid events leave the trade unchanged and say why. */
+export function applyEvent(trade: TradeLifecycle, event: TradeEvent): Transition {
+  if (trade.state === "closed") {
+    return replayOnClosed(trade, event)
+      ? { trade, applied: false, error: null, event }
+      : { trade, applied: false, error: `${event.type} on a closed trade`, event };
+  }
+  const next = nextTrade(trade, event);
+  if (next === null) return { trade, applied: false, error: null, event };
+  if (typeof next === "string") return { trade, applied: false, error: next, event };
+  if (next.state !== trade.state && !canTransition(trade.state, next.state)) {
+    return { trade, applied: false, error: `${trade.state} → ${next.state} is not allowed`, event };
+  }
+  const quantity = trade.state === "pending" ? 0 : round(trade.openQuantity - next.openQuantity);
+  const booked = event.type === "open" || event.type === "trail" ? event : { ...event, quantity };
+  return { trade: next, applied: true, error: null, event: booked };
+}
+
+// ---------- Prices ----------
+
+/**
+ * Events a price print triggers, in order: the fill of a pending entry, each
+ * target it reaches (one per level, so a gap past T1 and T2 records both), or the
+ * stop. Longs fill, stop and take profit the opposite way to shorts. A gap
+ * through the stop exits at the print, not at the stop.
+ */
+export function eventsForPrice(trade: TradeLifecycle, price: number, time: number): TradeEvent[] {
+  if (trade.state === "closed" || !(price > 0)) return [];
+  if (trade.expiresAt !== null && time >= trade.expiresAt) return [{ type: "close", reason: "expired", price, time }];
+
+  const long = trade.side === "long";
+  if (trade.state === "pending") {
+    return (long ? price <= trade.entry : price >= trade.entry) ? [{ type: "open", price: trade.entry, time }] : [];
+  }
+  if (trade.stoploss > 0 && (long ? price <= trade.stoploss : price >= trade.stoploss)) return [{ type: "stop", price, time }];
+
+  const events: TradeEvent[] = [];
+  for (let i = trade.targetsHit; i < trade.targets.length; i++) {
+    const level = trade.targets[i];
+    if (!(long ? price >= level : price <= level)) break;
+    events.push({ type: "target", index: i + 1, price, time });
+  }
+  return events;
+}
+
+/** Apply every event a price print triggers; `events` are the ones that changed the trade. */
+export function applyPrice(trade: TradeLifecycle, price: number, time: number): { trade: TradeLifecycle; events: TradeEvent[] } {
+  const events: TradeEvent[] = [];
+  let current = trade;
+  for (const event of eventsForPrice(trade, price, time)) {
+    const t = applyEvent(current, event);
+    if (t.applied) {
+      current = t.trade;
+      events.push(t.event);
+    }
+  }
+  return { trade: current, events };
+}
+
+/** Blended realized result in R: 1 means the trade made what its initial risk was. */
+export function realizedR(trade: TradeLifecycle): number {
+  const risk = trade.riskPerUnit * trade.quantity;
+  return risk > 0 ? Math.round((trade.realizedPnl / risk) * 100) / 100 : 0;
+}
+
+// ---------- Legacy status ----------
+
+/** The old `trades.status` value, kept up to date for existing readers. */
+export function legacyStatus(trade: Pick<TradeLifecycle, "state" | "closeReason">): "active" | "target_hit" | "stop_loss" | "closed" {
+  if (trade.state !== "closed") return "active";
+  return trade.closeReason === "target" ? "target_hit" : trade.closeReason === "stop" ? "stop_loss" : "closed";
+}
+
+// ---------- Messages ----------
+
+/**
+ * One line for notifications, given the trade after its latest events; null for
+ * stop moves, which happen too often to announce.
+ */
+export function describeEvent(event: TradeEvent, trade: TradeLifecycle): string | null {
+  const at = (price: number) => price.toFixed(2);
+  const result = () => `realized ${realizedR(trade).toFixed(2)}R`;
+  switch (event.type) {
+    case "open":
+      return `entry filled at ${at(event.price)}`;
+    case "target":
+      return trade.state === "closed" && trade.closeReason === "target" && event.index === trade.targetsHit
+        ? `T${event.index} hit at ${at(event.price)}, trade closed, ${result()}`
+        : `T${event.index} hit at ${at(event.price)}, booked ${event.quantity ?? 0}`;
+    case "stop":
+      return `stopped out at ${at(event.price)}, ${result()}`;
+    case "close":
+      if (trade.exitPrice === null) return `${event.reason === "expired" ? "expired" : "cancelled"} before the entry filled`;
+      return `closed (${event.reason}) at ${at(event.price)}, ${result()}`;
+    case "trail":
+      return null;
+  }
+}
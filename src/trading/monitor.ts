@@ -0,0 +1,219 @@
+// src/trading/monitor.ts
+// Server-side trade monitor: every running trade, for every user, is watched on
+// the stream hub and moved through its lifecycle and exit rules on each usable
+// tick, whether or not a browser is open. Long and short trades resolve their own
+// way (see lifecycle.eventsForPrice) and a gap through the stop exits at the
+// print. Writes go through the same conditional commit as the pages, so a level
+// is recorded and announced once however many writers see it.
+//
+// Started from instrumentation.ts; TRADE_MONITOR=off disables it, and
+// TRADE_MONITOR_REFRESH_MS sets how often newly saved trades are picked up.
+import { getMarketClock } from "@/src/market";
+import { isMarketOpen } from "@/src/market/calendar";
+import { canonicalSymbol, getInstrument } from "@/src/market/instruments";
+import { getStreamHub, StreamHub } from "@/src/market/streamHub";
+import { loadDefaultTimeframes } from "@/src/market/timeframes";
+import type { Quote } from "@/src/market/types";
+import { isUsableQuote } from "@/src/market/validation";
+import type { TradeRecord } from "@/src/supabase/getUserTrades";
+import { createTradeStore, exitRulesForRow, lifecycleFromRow } from "@/src/supabase/tradeStore";
+import { applyExits, ExitMarket, exitMarket } from "./exits";
+import type { TradeEvent, TradeLifecycle } from "./lifecycle";
+
+export interface TradeStore {
+  /** Every running trade, all users. */
+  loadOpenTrades(): Promise<TradeRecord[]>;
+  /** The row as stored now, after losing an update to another writer. */
+  loadTrade(id: string): Promise<TradeRecord | null>;
+  /** Persist a transition computed from `row`; null when the row moved on meanwhile. */
+  commit(row: TradeRecord, trade: TradeLifecycle, events: TradeEvent[]): Promise<TradeRecord | null>;
+}
+
+export interface MonitorOptions {
+  /** How often open trades are reloaded, to pick up new ones and drop ones closed elsewhere. */
+  refreshMs: number;
+  /** How long ATR/swings for trailing are reused before the candles are read again. */
+  exitMarketMs: number;
+  /** Bars for trailing stops; daily candles from the market layer by default. */
+  loadExitMarket(symbol: string): Promise<ExitMarket>;
+  /** Prints older than this are ignored, like the market layer's staleness window. */
+  staleAfterMs: number;
+  now(): number;
+}
+
+export interface MonitorStatus {
+  running: boolean;
+  trades: number;
+  symbols: string[];
+  lastRefresh: number | null;
+}
+
+export interface TradeMonitor {
+  start(): Promise<void>;
+  stop(): void;
+  refresh(): Promise<void>;
+  /** Run one price through the trades on `symbol`; what a tick does. */
+  onPrice(symbol: string, price: number): Promise<void>;
+  status(): MonitorStatus;
+}
+
+const DEFAULTS: MonitorOptions = {
+  refreshMs: 60_000,
+  exitMarketMs: 15 * 60_000,
+  loadExitMarket: async (symbol) => {
+    const { "1D": candles = [] } = await loadDefaultTimeframes(symbol, ["1D"]);
+    return exitMarket(candles, getInstrument(symbol)?.lotSize);
+  },
+  staleAfterMs: Number(process.env.MARKET_DATA_STALE_AFTER_MS ?? 15 * 60_000),
+  now: () => getMarketClock().now(),
+};
+
+export function createTradeMonitor(hub: StreamHub, store: TradeStore, options: Partial<MonitorOptions> = {}): TradeMonitor {
+  const o = { ...DEFAULTS, ...options };
+  // canonical symbol -> trade id -> row
+  const trades = new Map<string, Map<string, TradeRecord>>();
+  const markets = new Map<string, { market: ExitMarket; at: number }>();
+  const busy = new Set<string>();
+  let unsubscribe: (() => void) | null = null;
+  let subscribed = "";
+  let timer: ReturnType<typeof setInterval> | null = null;
+  let lastRefresh: number | null = null;
+
+  function track(row: TradeRecord) {
+    const key = canonicalSymbol(row.symbol);
+    const rows = trades.get(key) ?? new Map<string, TradeRecord>();
+    if (row.status === "active") rows.set(row.id, row);
+    else rows.delete(row.id);
+    if (rows.size) trades.set(key, rows);
+    else trades.delete(key);
+  }
+
+  async function loadMarket(symbol: string) {
+    const cached = markets.get(symbol);
+    if (cached && o.now() - cached.at < o.exitMarketMs) return;
+    try {
+      markets.set(symbol, { market: await o.loadExitMarket(symbol), at: o.now() });
+    } catch (err) {
+      // without bars the trade still runs, just without ATR/swing trailing
+      console.warn(`trade monitor: no exit market for ${symbol}`, err);
+    }
+  }
+
+  async function advance(row: TradeRecord, price: number, time: number) {
+    if (busy.has(row.id)) return;
+    busy.add(row.id);
+    try {
+      const market = markets.get(canonicalSymbol(row.symbol))?.market ?? {};
+      const { trade, events } = applyExits(lifecycleFromRow(row), exitRulesForRow(row), price, time, market);
+      if (!events.length) return;
+      const saved = await store.commit(row, trade, events);
+      // lost to another writer: take whatever it wrote and carry on from there
+      const current = saved ?? (await store.loadTrade(row.id));
+      if (current) track(current);
+    } catch (err) {
+      console.error("trade monitor error", row.id, err);
+    } finally {
+      busy.delete(row.id);
+    }
+  }
+
+  async function onPrice(symbol: string, price: number) {
+    const rows = trades.get(canonicalSymbol(symbol));
+    if (!rows) return;
+    const time = o.now();
+    // a closed market's last print (Friday's, over a weekend) still passes validation; it never moves a trade
+    if (!isMarketOpen(symbol, time)) return;
+    await Promise.all([...rows.values()].map((row) => advance(row, price, time)));
+  }
+
+  /**
+   * A recent print from an open session, graded ok. The hub replays the last quote
+   * on subscribe, so without the age check Friday's close would move trades at Monday's open.
+   */
+  function tradable(quote: Quote | undefined): quote is Quote {
+    return !!quote && isUsableQuote(quote) && isMarketOpen(quote.symbol, quote.timestamp) && o.now() - quote.timestamp <= o.staleAfterMs;
+  }
+
+  function onQuote(quote: Quote) {
+    if (!tradable(quote)) return;
+    onPrice(quote.symbol, quote.price).catch((err) => console.error("trade monitor tick error", err));
+  }
+
+  async function refresh() {
+    const rows = await store.loadOpenTrades();
+    trades.clear();
+    rows.forEach(track);
+    const symbols = [...trades.keys()].sort();
+    await Promise.all(symbols.map(loadMarket));
+
+    // subscribe the new set before dropping the old one, so shared symbols keep their upstream feed
+    if (symbols.join(",") !== subscribed) {
+      const previous = unsubscribe;
+      unsubscribe = symbols.length ? hub.subscribe(symbols, onQuote) : null;
+      previous?.();
+      subscribed = symbols.join(",");
+    }
+
+    // expiry needs no tick: close trades whose time is up at the last price, under
+    // the same rules as a tick, so it waits for a usable print in an open market
+    const now = o.now();
+    const last = hub.snapshot(symbols);
+    const due = rows.filter(
+      (r) =>
+        r.status === "active" && r.expires_at && r.expires_at <= now && tradable(last[canonicalSymbol(r.symbol)]) && isMarketOpen(r.symbol, now)
+    );
+    await Promise.all(due.map((r) => advance(r, last[canonicalSymbol(r.symbol)].price, now)));
+    lastRefresh = now;
+  }
+
+  async function start() {
+    if (timer) return;
+    await refresh().catch((err) => console.error("trade monitor refresh failed", err));
+    timer = setInterval(() => refresh().catch((err) => console.error("trade monitor refresh failed", err)), o.refreshMs);
+  }
+
+  function stop() {
+    if (timer) clearInterval(timer);
+    timer = null;
+    unsubscribe?.();
+    unsubscribe = null;
+    subscribed = "";
+  }
+
+  function status(): MonitorStatus {
+    let count = 0;
+    for (const rows of trades.values()) count += rows.size;
+    return { running: timer !== null, trades: count, symbols: [...trades.keys()], lastRefresh };
+  }
+
+  return { start, stop, refresh, onPrice, status };
+}
+
+// ---------- Server instance ----------
+
+// Survive dev hot reloads: one monitor per server process
+const globalForMonitor = globalThis as unknown as { __tradeMonitor?: Promise<TradeMonitor | null> };
+
+/**
+ * The process-wide monitor, started on first use. Null when disabled or when the
+ * service-role key is missing: reading every user's trades needs it.
+ */
+export function getTradeMonitor(): Promise<TradeMonitor | null> {
+  if (!globalForMonitor.__tradeMonitor) {
+    globalForMonitor.__tradeMonitor = (async () => {
+      if (process.env.TRADE_MONITOR === "off") return null;
+      try {
+        // loaded lazily: the admin client throws at import when its key is missing
+        const { supabaseAdmin } = await import("@/src/lib/supabaseAdmin");
+        const refreshMs = Number(process.env.TRADE_MONITOR_REFRESH_MS) || DEFAULTS.refreshMs;
+        const monitor = createTradeMonitor(getStreamHub(), createTradeStore(supabaseAdmin), { refreshMs });
+        await monitor.start();
+        return monitor;
+      } catch (err) {
+        console.warn("Trade monitor disabled:", err instanceof Error ? err.message : err);
+        return null;
+      }
+    })();
+  }
+  return globalForMonitor.__tradeMonitor;
+}
@@ -9,6 +9,19 @@ export interface RLContext {
   smcConfidence: number;
   sma20: number;
   signal: "BUY" | "SELL" | "HOLD";
+
+  // Confirmation features (null while warming up). Recorded with every prediction
+  // for training; the state key below does not use them yet.
+  macdHist?: number | null;
+  bbWidth?: number | null;
+  atr?: number | null;
+  vwap?: number | null;
+  stochK?: number | null;
+  adx?: number | null;
+  plusDI?: number | null;
+  minusDI?: number | null;
+  obvSlope?: number | null;
+  supertrendDir?: 1 | -1 | null;
 }
 
 // Q table type
@@ -0,0 +1,114 @@
+// src/utils/signalFactors.ts
+// Typed breakdown of how a signal was reached. Strategies fill one in; the text
+// explanation, the RL context and the UI all read from it instead of parsing strings.
+import type { Timeframe } from "@/src/market/types";
+
+export type FactorDirection = "BULLISH" | "BEARISH" | "NEUTRAL";
+
+export type FactorGroup = "indicator" | "confirmation" | "smc" | "zone" | "rule" | "data";
+
+export interface SignalFactor {
+  /** Stable machine key, e.g. "rsi", "bos", "macd". */
+  key: string;
+  label: string;
+  group: FactorGroup;
+  value: number | string | boolean | null;
+  direction: FactorDirection;
+  /** Points this factor added to its group's score (0 for context-only factors). */
+  points: number;
+  /** Series the factor was read from, for multi-timeframe strategies. */
+  timeframe?: Timeframe;
+}
+
+export interface SignalFactors {
+  /** Directional bias the signal was built on. */
+  trendBias: FactorDirection;
+  /** Direction of the indicator-only setup. */
+  indicatorBias: FactorDirection;
+  /** Indicator score after its cap (0-40), and SMC score (0-99). */
+  indicatorScore: number;
+  smcScore: number;
+  rsi: number | null;
+  sma20: number | null;
+  ema50: number | null;
+  ema200: number | null;
+  items: SignalFactor[];
+  /** Set when the signal was suppressed or otherwise needs a caveat. */
+  note?: string;
+}
+
+export function emptyFactors(note?: string): SignalFactors {
+  return {
+    trendBias: "NEUTRAL",
+    indicatorBias: "NEUTRAL",
+    indicatorScore: 0,
+    smcScore: 0,
+    rsi: null,
+    sma20: null,
+    ema50: null,
+    ema200: null,
+    items: [],
+    note,
+  };
+}
+
+export function factor(
+  key: string,
+  label: string,
+  group: FactorGroup,
+  value: SignalFactor["value"],
+  direction: FactorDirection = "NEUTRAL",
+  points = 0,
+  timeframe?: Timeframe
+): SignalFactor {
+  return timeframe ? { key, label, group, value, direction, points, timeframe } : { key, label, group, value, direction, points };
+}
+
+export function findFactor(factors: SignalFactors | undefined, key: string): SignalFactor | undefined {
+  return factors?.items.find((f) => f.key === key);
+}
+
+// ---------- Text ----------
+
+const GROUP_TITLES: Record<FactorGroup, string> = {
+  indicator: "Indicators",
+  confirmation: "Confirm",
+  smc: "SMC",
+  zone: "Zone",
+  rule: "Rules",
+  data: "Data",
+};
+
+function formatValue(value: SignalFactor["value"]) {
+  if (value === null) return "n/a";
+  if (typeof value === "number") return Number.isInteger(value) ? String(value) : value.toFixed(2);
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  return value;
+}
+
+function formatFactor(f: SignalFactor) {
+  const dir = f.direction !== "NEUTRAL" && f.value !== f.direction ? ` ${f.direction}` : "";
+  const pts = f.points ? ` +${f.points}` : "";
+  return `${f.label}${f.timeframe ? `@${f.timeframe}` : ""}:${formatValue(f.value)}${dir}${pts}`;
+}
+
+/** Note first, then one part per group, pipe-separated, in the order groups first appear. */
+export function explainFactors(factors: SignalFactors): string {
+  const groups: FactorGroup[] = [];
+  for (const f of factors.items) if (!groups.includes(f.group)) groups.push(f.group);
+  // scores only mean something for point-based strategies
+  const scored = factors.items.some((f) => f.points > 0) || factors.indicatorScore > 0 || factors.smcScore > 0;
+
+  const parts = groups.map((g) => {
+    const items = factors.items.filter((f) => f.group === g);
+    const header =
+      g === "indicator"
+        ? ` ${factors.indicatorBias}${scored ? ` ${factors.indicatorScore}pts` : ""}`
+        : g === "smc"
+        ? ` ${factors.trendBias}${scored ? ` ${factors.smcScore}pts` : ""}`
+        : "";
+    return `${GROUP_TITLES[g]}${header} (${items.map(formatFactor).join(", ")})`;
+  });
+  if (factors.note) parts.unshift(factors.note);
+  return parts.join(" | ");
+}
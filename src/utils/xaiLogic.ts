@@ -2,6 +2,31 @@
 // Combined RSI + EMA indicator logic + Smart Money Concept (SMC) confluence confidence engine.
 // Clean, typed, and null-safe. Logic intended to replace your current xaiLogic implementation
 // while preserving existing return shapes and not changing external behavior other than improved confidence.
+import type { QuoteQuality } from "@/src/market/types";
+import { getInstrument } from "@/src/market/instruments";
+import { sessionKeys as sessionKeysFor } from "@/src/market/sessions";
+import {
+  ema,
+  indicatorSnapshot,
+  IndicatorParams,
+  IndicatorSnapshot,
+  last,
+  rsi as rsiSeries,
+  sma,
+} from "@/src/quant/indicators";
+import type { PositionSize } from "@/src/quant/positionSizing";
+import { riskLevels, RiskLevels, RiskOptions } from "@/src/quant/riskLevels";
+import { analyzeStructure, MarketStructure, recentEvent, StructureEvent, SwingPoint } from "@/src/quant/structure";
+import {
+  DEFAULT_WEIGHT_PROFILE,
+  profileStamp,
+  resolveWeightProfile,
+  SMCWeights,
+  WeightProfile,
+  WeightProfileStamp,
+} from "@/src/quant/weightProfiles";
+import { activeZones, findFairValueGaps, findOrderBlocks, nearestZone, trackZones, Zone } from "@/src/quant/zones";
+import { emptyFactors, explainFactors, factor, FactorDirection, SignalFactor, SignalFactors } from "./signalFactors";
 
 export interface WatchlistDisplay {
   symbol: string;
@@ -52,6 +77,8 @@ export interface StockData {
     highs: number[];     // high values
     lows: number[];      // low values
     volumes: number[];   // volume data
+    opens?: number[];    // opening prices, used to colour order-block candles
+    times?: number[];    // bar open times (ms epoch), aligned with the arrays above
   };
 
   /** ---- Backward compatibility ----
@@ -62,75 +89,44 @@ export interface StockData {
   highs?: number[];
   lows?: number[];
   volumes?: number[];
-}
-
 
+  /** Quote grade from the market-data chain; anything but "ok" yields HOLD. */
+  quality?: QuoteQuality;
 
+  /** Overrides for the confirmation indicators (MACD, Bollinger, ATR, ...). */
+  indicatorParams?: Partial<IndicatorParams>;
 
-// =========================================================
-// --- Indicator Helpers (SMA, EMA, RSI) ---
-// =========================================================
+  /** Overrides for stop/target placement (see quant/riskLevels). */
+  riskOptions?: Partial<RiskOptions>;
 
-export function calculateSMA(data: number[], period: number): number {
-  if (!Array.isArray(data) || data.length === 0) return 0;
-  if (data.length < period) return data[data.length - 1] ?? 0;
-  const slice = data.slice(-period);
-  let sum = 0;
-  for (let i = 0; i < slice.length; i++) sum += slice[i];
-  return sum / slice.length;
+  /** Confidence weights; resolved from the symbol / asset class when omitted. */
+  weightProfile?: WeightProfile;
 }
 
-export function calculateEMA(data: number[], period: number): number {
-  if (!Array.isArray(data) || data.length === 0) return 0;
-  const k = 2 / (period + 1);
-  // Start ema at first value (common quick method)
-  let ema = data[0];
-  for (let i = 1; i < data.length; i++) {
-    ema = data[i] * k + ema * (1 - k);
-  }
-  return ema;
-}
 
-export function calculateRSI(data: number[], period = 14): number {
-  if (!Array.isArray(data) || data.length < period + 1) return 50;
-  let gains = 0;
-  let losses = 0;
-  const start = Math.max(1, data.length - period);
-  for (let i = start; i < data.length; i++) {
-    const diff = data[i] - (data[i - 1] ?? data[i]);
-    if (diff > 0) gains += diff;
-    else losses += Math.abs(diff);
-  }
-  const avgGain = gains / period;
-  const avgLoss = losses / period;
-  if (avgLoss === 0) return 100;
-  const rs = avgGain / avgLoss;
-  return 100 - 100 / (1 + rs);
-}
+
 
 // =========================================================
 // --- SMC Detection Helpers ---
 // =========================================================
 
-export function detectFairValueGap(highs: number[], lows: number[]): boolean {
-  if (!highs?.length || !lows?.length) return false;
-  if (highs.length < 3 || lows.length < 3) return false;
-  const i = highs.length - 3;
-  const prevHigh = highs[i];
-  const nextLow = lows[i + 2];
-  if (!isFinite(prevHigh) || !isFinite(nextLow) || prevHigh === 0) return false;
-  return Math.abs(nextLow - prevHigh) / Math.abs(prevHigh) > 0.005;
+// Structure breaks and zones older than this many bars no longer count as "current" for scoring
+const STRUCTURE_RECENCY_BARS = 20;
+
+/** True when an unmitigated fair value gap formed within the recent structure window. */
+export function detectFairValueGap(highs: number[], lows: number[], closes?: number[]): boolean {
+  if (!highs?.length || !lows?.length || highs.length < 3) return false;
+  const close = closes ?? highs.map((h, i) => (h + lows[i]) / 2);
+  const bars = { high: highs, low: lows, close };
+  return activeZones(trackZones(findFairValueGaps(bars), bars)).some((z) => z.index >= highs.length - STRUCTURE_RECENCY_BARS);
 }
 
-export function detectOrderBlock(prices: number[]): "BULLISH" | "BEARISH" | null {
-  if (!prices?.length || prices.length < 5) return null;
-  const lastFive = prices.slice(-5);
-  const avg = lastFive.reduce((a, b) => a + b, 0) / lastFive.length;
-  const recent = prices[prices.length - 1];
-  if (!isFinite(recent) || !isFinite(avg)) return null;
-  if (recent > avg * 1.01) return "BULLISH";
-  if (recent < avg * 0.99) return "BEARISH";
-  return null;
+/** Direction of the most recent unmitigated order block. Closes double as highs/lows when those are missing. */
+export function detectOrderBlock(prices: number[], highs?: number[], lows?: number[]): "BULLISH" | "BEARISH" | null {
+  if (!prices?.length) return null;
+  const bars = { high: highs ?? prices, low: lows ?? prices, close: prices };
+  const blocks = activeZones(trackZones(findOrderBlocks(bars, analyzeStructure(bars)), bars));
+  return blocks.length ? blocks[blocks.length - 1].direction : null;
 }
 
 export function detectVolumeSurge(volumes: number[]): boolean {
@@ -184,32 +180,18 @@ export function detectBreakerBlock(prices: number[]): "BULLISH" | "BEARISH" | nu
   return null;
 }
 
-export function detectBOS(highs: number[], lows: number[]): "BULLISH" | "BEARISH" | null {
+/** Direction of a recent break of structure against confirmed swing pivots. */
+export function detectBOS(highs: number[], lows: number[], closes?: number[]): "BULLISH" | "BEARISH" | null {
   if (!highs?.length || !lows?.length) return null;
-  if (highs.length < 6 || lows.length < 6) return null;
-  const prevHigh = highs[highs.length - 3];
-  const currHigh = highs[highs.length - 1];
-  const prevLow = lows[lows.length - 3];
-  const currLow = lows[lows.length - 1];
-  if (!isFinite(prevHigh) || !isFinite(currHigh) || !isFinite(prevLow) || !isFinite(currLow)) return null;
-  if (currHigh > prevHigh * 1.002) return "BULLISH";
-  if (currLow < prevLow * 0.998) return "BEARISH";
-  return null;
+  const structure = analyzeStructure({ high: highs, low: lows, close: closes });
+  return recentEvent(structure, "BOS", highs.length, STRUCTURE_RECENCY_BARS)?.direction ?? null;
 }
 
-export function detectCHoCH(highs: number[], lows: number[]): "BULLISH" | "BEARISH" | null {
+/** Direction of a recent change of character (a break against the prevailing structure). */
+export function detectCHoCH(highs: number[], lows: number[], closes?: number[]): "BULLISH" | "BEARISH" | null {
   if (!highs?.length || !lows?.length) return null;
-  if (highs.length < 8 || lows.length < 8) return null;
-  const lastHigh = highs[highs.length - 1];
-  const secondLastHigh = highs[highs.length - 3];
-  const lastLow = lows[lows.length - 1];
-  const secondLastLow = lows[lows.length - 3];
-  if (!isFinite(lastHigh) || !isFinite(secondLastHigh) || !isFinite(lastLow) || !isFinite(secondLastLow)) return null;
-  const brokeHigh = lastHigh > secondLastHigh * 1.001;
-  const brokeLow = lastLow < secondLastLow * 0.999;
-  if (brokeHigh && !brokeLow) return "BULLISH";
-  if (brokeLow && !brokeHigh) return "BEARISH";
-  return null;
+  const structure = analyzeStructure({ high: highs, low: lows, close: closes });
+  return recentEvent(structure, "CHoCH", highs.length, STRUCTURE_RECENCY_BARS)?.direction ?? null;
 }
 
 // =========================================================
@@ -229,43 +211,31 @@ type SMCInputs = {
   trendBias: "BULLISH" | "BEARISH" | "NEUTRAL";
 };
 
-// Weighted scoring for SMC confluence only (0-100)
-export function computeSMCConfidence(inputs: SMCInputs): number {
-  const {
-    bos,
-    choch,
-    orderBlock,
-    liquiditySweep,
-    mitigation,
-    breaker,
-    hasFVG,
-    volumeSurge,
-    fibZone,
-    trendBias,
-  } = inputs;
-
-  let score = 0;
-
-  // Market structure: biggest single factors
-  if (bos === "BULLISH" || bos === "BEARISH") score += 22;
-  if (choch === "BULLISH" || choch === "BEARISH") score += 20;
-
-  // Liquidity / volume
-  if (liquiditySweep) score += 12;
-  if (volumeSurge) score += 10;
-
-  // Order blocks / mitigation / breaker
-  if (orderBlock) score += 10;
-  if (mitigation) score += 8;
-  if (breaker) score += 6;
-
-  // Fair value gap
-  if (hasFVG) score += 5;
-
-  // Fib zone alignment bonus (premium/discount)
-  if (fibZone === "DISCOUNT" && trendBias === "BULLISH") score += 10;
-  if (fibZone === "PREMIUM" && trendBias === "BEARISH") score += 10;
+/** Points each SMC factor contributes under `weights`; computeSMCConfidence is their capped sum. */
+export function smcPoints(inputs: SMCInputs, weights: SMCWeights = DEFAULT_WEIGHT_PROFILE.smc): SMCWeights {
+  const { bos, choch, orderBlock, liquiditySweep, mitigation, breaker, hasFVG, volumeSurge, fibZone, trendBias } = inputs;
+  const fibAligned = (fibZone === "DISCOUNT" && trendBias === "BULLISH") || (fibZone === "PREMIUM" && trendBias === "BEARISH");
+  return {
+    // Market structure: biggest single factors
+    bos: bos ? weights.bos : 0,
+    choch: choch ? weights.choch : 0,
+    // Liquidity / volume
+    liquiditySweep: liquiditySweep ? weights.liquiditySweep : 0,
+    volumeSurge: volumeSurge ? weights.volumeSurge : 0,
+    // Order blocks / mitigation / breaker
+    orderBlock: orderBlock ? weights.orderBlock : 0,
+    mitigation: mitigation ? weights.mitigation : 0,
+    breaker: breaker ? weights.breaker : 0,
+    // Fair value gap
+    fvg: hasFVG ? weights.fvg : 0,
+    // Fib zone alignment bonus (premium/discount)
+    fibAlignment: fibAligned ? weights.fibAlignment : 0,
+  };
+}
 
+// Weighted scoring for SMC confluence only (0-100)
+export function computeSMCConfidence(inputs: SMCInputs, weights: SMCWeights = DEFAULT_WEIGHT_PROFILE.smc): number {
+  const score = Object.values(smcPoints(inputs, weights)).reduce((a, b) => a + b, 0);
   return Math.min(Math.round(score), 99);
 }
 
@@ -298,30 +268,92 @@ export interface SignalResult {
   finalPrice?: number;
   resolved?: boolean;
   resolvedAt?: string;
+  /** Latest confirmation-indicator readings the signal was scored with. */
+  indicators?: IndicatorSnapshot;
+  /** Nearest unmitigated zone in the signal direction; entry and stop are placed off it. */
+  entryZone?: Zone | null;
+  /** Unmitigated order blocks and FVGs, oldest first. */
+  zones?: Zone[];
+  /** Structure the signal was based on, with levels and bar positions for charting. */
+  structure?: {
+    trend: MarketStructure["trend"];
+    bos: StructureEvent | null;
+    choch: StructureEvent | null;
+    /** Most recent confirmed swings, oldest first. */
+    swings: SwingPoint[];
+  };
+  /** Weight profile the confidence was computed with. */
+  weights?: WeightProfileStamp;
+  /** Every factor behind the signal with its value, direction and points; `explanation` is rendered from it. */
+  factors?: SignalFactors;
+  /** How the stop and targets were placed, with the reward:risk of each target. Absent on HOLD. */
+  risk?: RiskLevels;
+}
+
+/** Trading-date key per bar so session VWAP restarts each day. */
+function sessionKeys(symbol: string, times?: number[]): string[] | undefined {
+  if (!times?.length) return undefined;
+  const hours = getInstrument(symbol)?.hours;
+  return hours ? sessionKeysFor(times, hours) : undefined;
 }
 
 export function generateSMCSignal(stock: StockData): SignalResult {
-  const current = stock.current ?? 0;
+  const profile = stock.weightProfile ?? resolveWeightProfile(stock.symbol);
+
+  // Never trade off a missing, zero or degraded price
+  if (!(stock.current > 0) || (stock.quality && stock.quality !== "ok")) {
+    const price = stock.current > 0 ? stock.current : 0;
+    const factors = emptyFactors(`Data: ${stock.current > 0 ? stock.quality : "no valid price"} — signal suppressed`);
+    return {
+      signal: "HOLD",
+      stoploss: price,
+      targets: [price],
+      confidence: 0,
+      explanation: explainFactors(factors),
+      hitStatus: "ACTIVE",
+      entryPrice: price,
+      resolved: false,
+      weights: profileStamp(profile),
+      factors,
+    };
+  }
+
+  const current = stock.current;
   const prevClose = stock.previousClose ?? current;
-  const prices = stock.prices ?? [];
-  const highs = stock.highs ?? [];
-  const lows = stock.lows ?? [];
-  const volumes = stock.volumes ?? [];
-
-  // Basic indicators (retain SMA/EMA/RSI presence)
-  const sma20 = calculateSMA(prices, 20);
-  const ema50 = calculateEMA(prices, 50);
-  const ema200 = calculateEMA(prices, 200);
-  const rsi = calculateRSI(prices, 14);
+  const prices = stock.history?.prices ?? stock.prices ?? [];
+  const highs = stock.history?.highs ?? stock.highs ?? [];
+  const lows = stock.history?.lows ?? stock.lows ?? [];
+  const volumes = stock.history?.volumes ?? stock.volumes ?? [];
+  const bars = { high: highs, low: lows, close: prices, volume: volumes };
+
+  // Basic indicators; null while there isn't enough history to warm them up
+  const sma20 = last(sma(prices, 20));
+  const ema50 = last(ema(prices, 50));
+  const ema200 = last(ema(prices, 200));
+  const rsi = last(rsiSeries(prices, 14));
+  const ind =
+    highs.length === prices.length && lows.length === prices.length && volumes.length === prices.length
+      ? indicatorSnapshot(bars, stock.indicatorParams, sessionKeys(stock.symbol, stock.history?.times))
+      : undefined;
   const change = prevClose !== 0 ? ((current - prevClose) / prevClose) * 100 : 0;
 
   // SMC detections
-  const hasFVG = detectFairValueGap(highs, lows);
-  const orderBlock = detectOrderBlock(prices);
+  const times = stock.history?.times;
+  const structure = analyzeStructure({ high: highs, low: lows, close: prices, time: times });
+  const zoneBars = { open: stock.history?.opens, high: highs, low: lows, close: prices, time: times };
+  const zones = activeZones(
+    trackZones([...findOrderBlocks(zoneBars, structure), ...findFairValueGaps(zoneBars)], zoneBars)
+  ).sort((a, b) => a.index - b.index);
+  const recentZones = zones.filter((z) => z.index >= prices.length - STRUCTURE_RECENCY_BARS);
+  const hasFVG = recentZones.some((z) => z.kind === "FVG");
+  const lastOB = zones.filter((z) => z.kind === "OB").pop();
+  const orderBlock = lastOB?.direction ?? null;
   const volumeSurge = detectVolumeSurge(volumes);
   const liquiditySweep = detectLiquiditySweep(highs, lows, current);
-  const bos = detectBOS(highs, lows);
-  const choch = detectCHoCH(highs, lows);
+  const bosEvent = recentEvent(structure, "BOS", highs.length, STRUCTURE_RECENCY_BARS);
+  const chochEvent = recentEvent(structure, "CHoCH", highs.length, STRUCTURE_RECENCY_BARS);
+  const bos = bosEvent?.direction ?? null;
+  const choch = chochEvent?.direction ?? null;
   const mitigation = detectMitigationBlock(prices);
   const breaker = detectBreakerBlock(prices);
 
@@ -333,36 +365,60 @@ export function generateSMCSignal(stock: StockData): SignalResult {
 
   // --- Indicator scoring (RSI + EMA/SMA) ---
   // This yields 0-40 points
-  let indicatorScore = 0;
   // Price vs SMA/EMA context
-  const aboveSMA20 = current > sma20;
-  const aboveEMA50 = current > ema50;
-  const emaBullish = ema50 > ema200;
-  const emaBearish = ema50 < ema200;
-
-  // momentum via RSI (soft thresholds)
-  const rsiBull = rsi < 70 && rsi > 40; // momentum but not overbought
-  const rsiSellSignal = rsi > 30 && rsi < 60 ? false : false; // placeholder — we'll use strict thresholds below
+  const aboveSMA20 = sma20 !== null && current > sma20;
+  const aboveEMA50 = ema50 !== null && current > ema50;
+  const belowSMA20 = sma20 !== null && current < sma20;
+  const belowEMA50 = ema50 !== null && current < ema50;
+  const emaBullish = ema50 !== null && ema200 !== null && ema50 > ema200;
+  const emaBearish = ema50 !== null && ema200 !== null && ema50 < ema200;
 
   // Strong buy indicator: price above SMA20 & EMA50, ema50>ema200, positive change, rsi not overbought
   const indicatorBuy =
-    aboveSMA20 && aboveEMA50 && emaBullish && rsi < 70 && change > 0;
+    aboveSMA20 && aboveEMA50 && emaBullish && rsi !== null && rsi < 70 && change > 0;
   // Strong sell indicator: price below SMA20 & EMA50, ema50<ema200, negative change, rsi not oversold
   const indicatorSell =
-    !aboveSMA20 && !aboveEMA50 && emaBearish && rsi > 30 && change < 0;
-
-  // assign points
-  if (indicatorBuy) indicatorScore += 28; // bulk points for indicator agreement
-  if (indicatorSell) indicatorScore += 28;
+    belowSMA20 && belowEMA50 && emaBearish && rsi !== null && rsi > 30 && change < 0;
+  const indicatorBias: FactorDirection = indicatorBuy ? "BULLISH" : indicatorSell ? "BEARISH" : "NEUTRAL";
+  const side = (bull: boolean, bear: boolean): FactorDirection => (bull ? "BULLISH" : bear ? "BEARISH" : "NEUTRAL");
+
+  const indicatorItems: SignalFactor[] = [
+    // bulk points for indicator agreement
+    factor("setup", "Setup", "indicator", indicatorBuy ? "BUY" : indicatorSell ? "SELL" : "None", indicatorBias, indicatorBuy || indicatorSell ? 28 : 0),
+    // supportive points for partial agreement
+    factor("sma20", "SMA20", "indicator", sma20, side(aboveSMA20, belowSMA20)),
+    factor("ema50", "EMA50", "indicator", ema50, side(aboveEMA50, belowEMA50), aboveSMA20 && aboveEMA50 ? 6 : 0),
+    factor("ema200", "EMA200", "indicator", ema200, side(emaBullish, emaBearish), emaBullish ? 4 : 0),
+    factor("rsi", "RSI", "indicator", rsi, "NEUTRAL", (rsi !== null && rsi < 60 ? 2 : 0) + (rsi !== null && rsi > 40 ? 2 : 0)),
+  ];
+
+  // Confirmation set traders check before taking an SMC setup; 2 points each in the bias direction
+  const confirmItems: SignalFactor[] = [];
+  if (ind) {
+    const adxTrending = ind.adx !== null && ind.adx >= 20 && ind.plusDI !== null && ind.minusDI !== null;
+    const checks: [string, string, number | null, boolean, boolean][] = [
+      ["macd", "MACDh", ind.macdHist, ind.macdHist !== null && ind.macdHist > 0, ind.macdHist !== null && ind.macdHist <= 0],
+      ["adx", "ADX", ind.adx, adxTrending && ind.plusDI! > ind.minusDI!, adxTrending && ind.plusDI! < ind.minusDI!],
+      ["supertrend", "Supertrend", ind.supertrendDir, ind.supertrendDir === 1, ind.supertrendDir === -1],
+      ["vwap", "VWAP", ind.vwap, ind.vwap !== null && current > ind.vwap, ind.vwap !== null && current < ind.vwap],
+      ["obv", "OBV", ind.obvSlope, ind.obvSlope !== null && ind.obvSlope > 0, ind.obvSlope !== null && ind.obvSlope < 0],
+      // not stretched against the move: below 80 allows longs, above 20 allows shorts
+      ["stoch", "Stoch", ind.stochK, ind.stochK !== null && ind.stochK < 80, ind.stochK !== null && ind.stochK > 20],
+    ];
+    for (const [key, label, value, bull, bear] of checks) {
+      const confirms = trendBias === "BULLISH" ? bull : trendBias === "BEARISH" ? bear : false;
+      confirmItems.push(factor(key, label, "confirmation", value, confirms ? trendBias : side(bull && !bear, bear && !bull), confirms ? 2 : 0));
+    }
+    confirmItems.push(factor("atr", "ATR", "confirmation", ind.atr), factor("bbWidth", "BBW", "confirmation", ind.bbWidth));
+  }
 
-  // supportive points for partial agreement
-  if (aboveSMA20 && aboveEMA50) indicatorScore += 6;
-  if (emaBullish) indicatorScore += 4;
-  if (rsi < 60) indicatorScore += 2;
-  if (rsi > 40) indicatorScore += 2;
+  const indicatorScore = Math.min(
+    40,
+    [...indicatorItems, ...confirmItems].reduce((sum, f) => sum + f.points, 0)
+  );
 
   // combine SMC confidence
-  const smcConfidence = computeSMCConfidence({
+  const smcInputs = {
     bos,
     choch,
     orderBlock,
@@ -373,12 +429,26 @@ export function generateSMCSignal(stock: StockData): SignalResult {
     volumeSurge,
     fibZone,
     trendBias,
-  });
-
-  // final confidence: weighted average: indicators 40%, SMC 60%
+  } as const;
+  const smcConfidence = computeSMCConfidence(smcInputs, profile.smc);
+  const pts = smcPoints(smcInputs, profile.smc);
+  const smcItems: SignalFactor[] = [
+    factor("bos", "BOS", "smc", bosEvent?.level ?? null, bos ?? "NEUTRAL", pts.bos),
+    factor("choch", "CHoCH", "smc", chochEvent?.level ?? null, choch ?? "NEUTRAL", pts.choch),
+    factor("orderBlock", "OB", "smc", orderBlock, orderBlock ?? "NEUTRAL", pts.orderBlock),
+    factor("fvg", "FVG", "smc", hasFVG, "NEUTRAL", pts.fvg),
+    factor("volumeSurge", "VolSurge", "smc", volumeSurge, "NEUTRAL", pts.volumeSurge),
+    factor("liquiditySweep", "Sweep", "smc", liquiditySweep, liquiditySweep ?? "NEUTRAL", pts.liquiditySweep),
+    factor("mitigation", "Mitigation", "smc", mitigation, mitigation ?? "NEUTRAL", pts.mitigation),
+    factor("breaker", "Breaker", "smc", breaker, breaker ?? "NEUTRAL", pts.breaker),
+    factor("fibZone", "Fib", "smc", fibZone, fibZone === "DISCOUNT" ? "BULLISH" : fibZone === "PREMIUM" ? "BEARISH" : "NEUTRAL", pts.fibAlignment),
+    factor("lookback", "Range", "smc", `${lookbackLow.toFixed(2)}-${lookbackHigh.toFixed(2)}`),
+  ];
+
+  // final confidence: weighted average of indicators and SMC (40/60 in the default profile)
   const finalConfidence = Math.min(
     99,
-    Math.round((indicatorScore * 0.4) + (smcConfidence * 0.6))
+    Math.round((indicatorScore * profile.blend.indicator) + (smcConfidence * profile.blend.smc))
   );
 
   // Determine final signal — only emit BUY/SELL when both indicator context + SMC bias align.
@@ -389,36 +459,64 @@ export function generateSMCSignal(stock: StockData): SignalResult {
   // Condition to BUY:
   // - indicatorBuy (price + ema trend + rsi) OR indicatorScore partial positive
   // - and SMC bias bullish (or strong SMC score)
-  const smcStrongBull = smcConfidence >= 55 && (bos === "BULLISH" || choch === "BULLISH");
-  const smcStrongBear = smcConfidence >= 55 && (bos === "BEARISH" || choch === "BEARISH");
+  const smcStrongBull = smcConfidence >= profile.strongSmcThreshold && (bos === "BULLISH" || choch === "BULLISH");
+  const smcStrongBear = smcConfidence >= profile.strongSmcThreshold && (bos === "BEARISH" || choch === "BEARISH");
 
-  if ((indicatorBuy || indicatorScore >= 18) && (smcBias === "BULLISH" || smcStrongBull)) {
+  if ((indicatorBuy || indicatorScore >= profile.minIndicatorScore) && (smcBias === "BULLISH" || smcStrongBull)) {
     signal = "BUY";
-  } else if ((indicatorSell || indicatorScore >= 18) && (smcBias === "BEARISH" || smcStrongBear)) {
+  } else if ((indicatorSell || indicatorScore >= profile.minIndicatorScore) && (smcBias === "BEARISH" || smcStrongBear)) {
     signal = "SELL";
   } else {
     signal = "HOLD";
   }
 
-  // Stoploss and targets unchanged from previous logic (keeps compatibility)
-  const stoploss = signal === "BUY" ? current * 0.985 : signal === "SELL" ? current * 1.015 : current;
-  const targets =
-    signal === "BUY"
-      ? [current * 1.01, current * 1.02, current * 1.03]
-      : signal === "SELL"
-      ? [current * 0.99, current * 0.98, current * 0.97]
-      : [current];
-
-  // Explanation - compact, includes both indicator + SMC summary
-  const explanationParts: string[] = [];
-  explanationParts.push(
-    `Indicators: ${indicatorBuy ? "BUY" : indicatorSell ? "SELL" : "Neutral"} (SMA20:${sma20.toFixed(2)}, EMA50:${ema50.toFixed(2)}, EMA200:${ema200.toFixed(2)}, RSI:${Math.round(rsi)})`
-  );
-  explanationParts.push(
-    `SMC: ${smcBias} (BOS:${bos ?? "None"}, CHoCH:${choch ?? "None"}, OB:${orderBlock ?? "None"}, FVG:${hasFVG ? "Yes" : "No"}, VolSurge:${volumeSurge ? "Yes" : "No"})`
-  );
-  explanationParts.push(`FibZone:${fibZone}, LookbackRange:[${lookbackLow.toFixed(2)} - ${lookbackHigh.toFixed(2)}]`);
-  const explanation = explanationParts.join(" | ");
+  // Entry off the nearest order block (else FVG) on the entry side when it is close
+  // enough to act on, otherwise at market; stop and targets from the risk engine.
+  const direction = signal === "BUY" ? "BULLISH" : signal === "SELL" ? "BEARISH" : null;
+  const maxZoneDistance = ind?.atr ? ind.atr * 2 : current * 0.03;
+  const candidate = direction
+    ? nearestZone(zones, current, direction, "OB") ?? nearestZone(zones, current, direction, "FVG")
+    : null;
+  const entryZone =
+    candidate && (direction === "BULLISH" ? current - candidate.top : candidate.bottom - current) <= maxZoneDistance
+      ? candidate
+      : null;
+  const entryPrice =
+    entryZone && signal === "BUY" ? Math.min(current, entryZone.top) : entryZone && signal === "SELL" ? Math.max(current, entryZone.bottom) : current;
+  const risk = direction
+    ? riskLevels(
+        { side: direction === "BULLISH" ? "long" : "short", entry: entryPrice, atr: ind?.atr, swings: structure.swings, zone: entryZone },
+        stock.riskOptions
+      )
+    : undefined;
+  const stoploss = risk?.stoploss ?? current;
+  const targets = risk?.targets ?? [current];
+
+  // Explanation is rendered from the typed factors, in the order indicators | SMC | confirmations | zone
+  const zoneItems: SignalFactor[] = entryZone
+    ? [
+        factor("zone", "Zone", "zone", `${entryZone.kind} ${entryZone.bottom.toFixed(2)}-${entryZone.top.toFixed(2)} (${entryZone.status})`, entryZone.direction),
+        factor("entry", "Entry", "zone", entryPrice),
+      ]
+    : [];
+  if (risk) {
+    zoneItems.push(
+      factor("stop", `Stop(${risk.stopMethod})`, "zone", stoploss),
+      factor("rr", "R:R", "zone", risk.rewardRisk[risk.rewardRisk.length - 1] ?? null)
+    );
+  }
+  const factors: SignalFactors = {
+    trendBias,
+    indicatorBias,
+    indicatorScore,
+    smcScore: smcConfidence,
+    rsi,
+    sma20,
+    ema50,
+    ema200,
+    items: [...indicatorItems, ...smcItems, ...confirmItems, ...zoneItems],
+  };
+  const explanation = explainFactors(factors);
 
   return {
     signal,
@@ -427,8 +525,15 @@ export function generateSMCSignal(stock: StockData): SignalResult {
     confidence: finalConfidence,
     explanation,
     hitStatus: "ACTIVE",
-    entryPrice: current,
+    entryPrice,
     resolved: false,
+    indicators: ind,
+    entryZone,
+    zones: zones.slice(-10),
+    structure: { trend: structure.trend, bos: bosEvent, choch: chochEvent, swings: structure.swings.slice(-8) },
+    weights: profileStamp(profile),
+    factors,
+    risk,
   };
 }
 
@@ -448,4 +553,16 @@ export type StockDisplay = {
   stoploss?: number;
   targets?: number[];
   hitStatus?: "ACTIVE" | "TARGET ✅" | "STOP ❌";
+  quality?: QuoteQuality;
+  /** "id@version" of the strategy that produced the signal. */
+  strategy?: string;
+  factors?: SignalFactors;
+  /** Session label the signal was generated in ("NSE", "London KZ", "Closed (weekend)"). */
+  session?: string;
+  /** Entry the levels and size were worked out from: the strategy's, else the live price. */
+  entry?: number;
+  /** Reward:risk of each target. */
+  rewardRisk?: number[];
+  /** Suggested size for BUY/SELL under the account's risk settings. */
+  position?: PositionSize;
 };